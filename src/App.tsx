@@ -4,6 +4,7 @@ import { store } from './store/store'
 import { Toaster } from 'sonner'
 import { ThemeProvider } from './providers/ThemeProvider'
 import { I18nProvider } from './providers/I18nProvider'
+import { RealtimeProvider } from './providers/RealtimeProvider'
 import { ProtectedRoute } from '@/components/layout/ProtectedRoute'
 import { LoginPage } from '@/pages/auth/LoginPage'
 import { RegisterPage } from '@/pages/auth/RegisterPage'
@@ -16,39 +17,41 @@ function App() {
     <Provider store={store}>
       <ThemeProvider>
         <I18nProvider>
-          <BrowserRouter>
-            <Routes>
-              <Route path="/" element={<Navigate to="/chat" replace />} />
-              <Route path="/login" element={<LoginPage />} />
-              <Route path="/register" element={<RegisterPage />} />
-              <Route
-                path="/chat"
-                element={
-                  <ProtectedRoute>
-                    <ChatPage />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/admin"
-                element={
-                  <ProtectedRoute>
-                    <AdminDashboard />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/settings/profile"
-                element={
-                  <ProtectedRoute>
-                    <ProfileSettingsPage />
-                  </ProtectedRoute>
-                }
-              />
-              <Route path="*" element={<Navigate to="/chat" replace />} />
-            </Routes>
-            <Toaster />
-          </BrowserRouter>
+          <RealtimeProvider>
+            <BrowserRouter>
+              <Routes>
+                <Route path="/" element={<Navigate to="/chat" replace />} />
+                <Route path="/login" element={<LoginPage />} />
+                <Route path="/register" element={<RegisterPage />} />
+                <Route
+                  path="/chat"
+                  element={
+                    <ProtectedRoute>
+                      <ChatPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/admin"
+                  element={
+                    <ProtectedRoute>
+                      <AdminDashboard />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/settings/profile"
+                  element={
+                    <ProtectedRoute>
+                      <ProfileSettingsPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route path="*" element={<Navigate to="/chat" replace />} />
+              </Routes>
+              <Toaster />
+            </BrowserRouter>
+          </RealtimeProvider>
         </I18nProvider>
       </ThemeProvider>
     </Provider>
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react'
+import { ChevronDown, ChevronUp, Search, X } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { chatService } from '@/services/chatService'
+import { useDebouncedValue } from '@/hooks/useDebouncedValue'
+import { createLogger } from '@/lib/logger'
+import type { Message } from '@/types'
+
+const log = createLogger('chat')
+
+const SEARCH_DELAY = 300
+
+interface ChatSearchBarProps {
+  peerId: string
+  query: string
+  onQueryChange: (query: string) => void
+  // Loads history around the hit as needed and scrolls to it; must be stable
+  onJump: (messageId: string) => void
+  onClose: () => void
+}
+
+// Search within one conversation. Hits are stepped through newest first: up goes
+// to the next older match, down back to a newer one.
+export function ChatSearchBar({ peerId, query, onQueryChange, onJump, onClose }: ChatSearchBarProps) {
+  const { t } = useTranslation()
+  const debouncedQuery = useDebouncedValue(query.trim(), SEARCH_DELAY)
+  // Kept with the query they're for, so results of a previous query are never shown
+  const [results, setResults] = useState<{ query: string; messages: Message[] } | null>(null)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  useEffect(() => {
+    if (!debouncedQuery) return
+
+    let cancelled = false
+    chatService
+      .searchMessages(debouncedQuery, { receiverId: peerId })
+      .then((messages) => {
+        if (cancelled) return
+        setResults({ query: debouncedQuery, messages })
+        setActiveIndex(0)
+        if (messages.length > 0) {
+          onJump(messages[0].id)
+        }
+      })
+      .catch((error) => {
+        log.error('Failed to search messages', error)
+        if (!cancelled) setResults({ query: debouncedQuery, messages: [] })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [debouncedQuery, peerId, onJump])
+
+  const hits = results && debouncedQuery && results.query === debouncedQuery ? results.messages : null
+  const isSearching = !!query.trim() && !hits
+
+  const step = (direction: 1 | -1) => {
+    if (!hits || hits.length === 0) return
+    const next = (activeIndex + direction + hits.length) % hits.length
+    setActiveIndex(next)
+    onJump(hits[next].id)
+  }
+
+  return (
+    <div className="px-4 py-2 border-b bg-muted/20 flex-shrink-0">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            type="text"
+            placeholder={t('chat.searchInChat')}
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                step(e.shiftKey ? -1 : 1)
+              } else if (e.key === 'Escape') {
+                onClose()
+              }
+            }}
+            className="pl-10 bg-background border-border"
+            autoFocus
+          />
+        </div>
+        <span className="text-xs text-muted-foreground whitespace-nowrap min-w-[4rem] text-center">
+          {isSearching
+            ? t('common.loading')
+            : hits
+            ? hits.length > 0
+              ? t('chat.searchPosition', { current: activeIndex + 1, total: hits.length })
+              : t('chat.noResults')
+            : null}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => step(1)}
+          disabled={!hits || hits.length < 2}
+          aria-label={t('chat.olderMatch')}
+          title={t('chat.olderMatch')}
+        >
+          <ChevronUp className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => step(-1)}
+          disabled={!hits || hits.length < 2}
+          aria-label={t('chat.newerMatch')}
+          title={t('chat.newerMatch')}
+        >
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={onClose} aria-label={t('common.close')}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
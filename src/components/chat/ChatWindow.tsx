@@ -1,8 +1,17 @@
-import { useState, useEffect, useRef } from 'react'
-import { Send, Paperclip, X, Video } from 'lucide-react'
+import {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useMemo,
+  useDeferredValue,
+  useSyncExternalStore,
+} from 'react'
+import { flushSync } from 'react-dom'
+import { useVirtualizer } from '@tanstack/react-virtual'
+import { Send, Paperclip, X, Video, Pencil, Reply, Forward, Search, FileText } from 'lucide-react'
 import { Button } from '@/components/ui/button'
-import { Input } from '@/components/ui/input'
-import { ScrollArea } from '@/components/ui/scroll-area'
+import { Textarea } from '@/components/ui/textarea'
 import {
   Dialog,
   DialogContent,
@@ -12,44 +21,180 @@ import {
 } from '@/components/ui/dialog'
 import { chatService } from '@/services/chatService'
 import { useWebSocket } from '@/hooks/useWebSocket'
-import type { User, Message } from '@/types'
+import { realtimeClient } from '@/services/realtimeClient'
+import { outbox } from '@/services/outbox'
+import { MessageBubble } from './MessageBubble'
+import { ReplyQuote } from './ReplyQuote'
+import { ChatSearchBar } from './ChatSearchBar'
+import { DaySeparator } from './DaySeparator'
+import { PinnedBar } from './PinnedBar'
+import { ForwardDialog } from './ForwardDialog'
+import { LargePasteDialog } from './LargePasteDialog'
+import { MentionSuggestions } from './MentionSuggestions'
+import { UserProfileDialog } from './UserProfileDialog'
+import { LinkPreviewCard } from './LinkPreviewCard'
+import { UserAvatar } from './UserAvatar'
+import { PresenceStatus } from './PresenceStatus'
+import { useIsTyping, useTypingEmitter } from '@/hooks/useTyping'
+import { useStableCallback } from '@/hooks/useStableCallback'
+import { useDebouncedValue } from '@/hooks/useDebouncedValue'
+import { useMentionSuggestions } from '@/hooks/useMentionSuggestions'
+import type { User, Message, MessageMention, MessageReplyPreview, OutboxEntry } from '@/types'
 import { useAuth } from '@/hooks/useAuth'
+import { useAppDispatch, useAppSelector, useAppStore } from '@/store/hooks'
+import { clearDraft, updateDraft } from '@/store/slices/draftsSlice'
 import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
+import { createLogger } from '@/lib/logger'
+import { cn } from '@/lib/utils'
+import { getFirstLinkUrl, toPlainText, toggleFormatting } from '@/lib/richText'
+import { getMentionEntities, getMentionQuery, insertMention } from '@/lib/mentions'
+import {
+  addPinnedMessage,
+  applyMessageDeletion,
+  applyMessageUpdate,
+  applyPin,
+  applyReaction,
+  getMessageLayout,
+  insertMessageSorted,
+  isInConversation,
+  toForwardSource,
+  toReplyPreview,
+} from '@/lib/messages'
+
+const log = createLogger('chat')
+
+// Collapse bursts of incoming messages into a single read call
+const MARK_READ_DELAY = 500
+
+const PAGE_SIZE = 50
+// Start fetching older history this close to the top (px)
+const LOAD_OLDER_THRESHOLD = 200
+// Within this distance from the bottom (px) new messages keep the view pinned to the end
+const NEAR_BOTTOM_THRESHOLD = 100
+// Most recent messages refetched after a reconnect; older loaded history is kept as is
+const REFRESH_LIMIT = 500
+// Page size for loading the history between a jumped-to message and the loaded part
+const GAP_PAGE_SIZE = 200
+const HIGHLIGHT_DURATION = 2000
+// Starting guess for unmeasured rows (px); real heights are measured once rendered
+const ESTIMATED_ROW_HEIGHT = 72
+const OVERSCAN = 8
+const LINK_PREVIEW_DELAY = 500 // Wait for typing to pause before unfurling a pasted link
+// Ctrl/Cmd + key wraps the selection in the matching markdown marker
+const FORMATTING_SHORTCUTS: Record<string, string> = {
+  b: '**',
+  i: '_',
+  e: '`',
+}
+// The composer grows with its text up to this height (px), then scrolls
+const MAX_COMPOSER_HEIGHT = 200
+// Longer pastes (characters) are offered to be sent as a text file instead
+const LARGE_PASTE_THRESHOLD = 4000
+const PASTED_TEXT_FILE_NAME = 'pasted-text.txt'
+// What the upload endpoint accepts
+const ATTACHMENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'video/mp4',
+  'video/webm',
+  'text/plain',
+]
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024 // 10MB
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://127.0.0.1:8000'
+// Translation key of the reason a file can't be attached, or null if it can
+function getAttachmentError(file: File) {
+  if (!ATTACHMENT_TYPES.includes(file.type)) return 'chat.invalidFileType'
+  if (file.size > MAX_ATTACHMENT_SIZE) return 'chat.fileTooLarge'
+  return null
+}
+
+export interface FocusMessageRequest {
+  userId: string
+  messageId: string
+}
 
 interface ChatWindowProps {
   userId: string | null
   user?: User
+  // Scrolls to and highlights this message once its conversation has loaded
+  focusMessage?: FocusMessageRequest | null
   onMessageSent?: (message: Message) => void
+  // Opens the conversation with someone, e.g. from a mentioned user's profile
+  onOpenChat?: (userId: string) => void
 }
 
-export function ChatWindow({ userId, user, onMessageSent }: ChatWindowProps) {
+export function ChatWindow({ userId, user, focusMessage, onMessageSent, onOpenChat }: ChatWindowProps) {
   const { t } = useTranslation()
   const { user: currentUser } = useAuth()
   const [messages, setMessages] = useState<Message[]>([])
   const [messageText, setMessageText] = useState('')
   const [isLoading, setIsLoading] = useState(false)
-  const [isSending, setIsSending] = useState(false)
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false)
+  const [hasMoreHistory, setHasMoreHistory] = useState(false)
+  // Conversation whose first page is in `messages`
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [filePreview, setFilePreview] = useState<string | null>(null)
-  const [isUploading, setIsUploading] = useState(false)
   const [mediaModalOpen, setMediaModalOpen] = useState(false)
   const [selectedMedia, setSelectedMedia] = useState<{ url: string; type: string } | null>(null)
-  const messagesEndRef = useRef<HTMLDivElement>(null)
+  // Own message whose text is loaded into the composer for editing
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null)
+  const [replyingTo, setReplyingTo] = useState<MessageReplyPreview | null>(null)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
+  // Pinned messages of this conversation, oldest first; may include unloaded history
+  const [pinnedMessages, setPinnedMessages] = useState<Message[]>([])
+  // In-chat search query; null while the search bar is closed
+  const [searchQuery, setSearchQuery] = useState<string | null>(null)
+  // Lags behind typing so re-highlighting the visible bubbles doesn't block the input
+  const highlightQuery = useDeferredValue(searchQuery?.trim() || undefined)
+  // Ids picked in multi-select mode; null while not selecting
+  const [selectedMessageIds, setSelectedMessageIds] = useState<Set<string> | null>(null)
+  // Messages the forward picker is open for
+  const [forwardingMessages, setForwardingMessages] = useState<Message[] | null>(null)
+  // URL whose preview the sender removed from the composer
+  const [removedPreviewUrl, setRemovedPreviewUrl] = useState<string | null>(null)
+  // Long pasted text waiting for the choice between inserting it and attaching it as a file
+  const [largePaste, setLargePaste] = useState<{
+    text: string
+    file: File
+    selectionStart: number
+    selectionEnd: number
+  } | null>(null)
+  // @mention being typed before the caret; `start` is the index of its "@"
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null)
+  const [activeSuggestion, setActiveSuggestion] = useState(0)
+  // People picked from the mention suggestions in this chat; their "@username"
+  // in the text becomes a mention entity when sending
+  const [mentionedUsers, setMentionedUsers] = useState<User[]>([])
+  // Whose profile is open, from clicking a mention
+  const [profileMention, setProfileMention] = useState<MessageMention | null>(null)
+  const scrollContainerRef = useRef<HTMLDivElement>(null)
+  const isNearBottomRef = useRef(true)
+  // Latest committed messages, for code running right after a flushSync
+  const messagesRef = useRef(messages)
+  const highlightTimeoutRef = useRef<number | undefined>(undefined)
+  const handledFocusRef = useRef<FocusMessageRequest | null>(null)
+  const isLoadingOlderRef = useRef(false)
+  // Chat that async loads belong to; results for a chat we've left are dropped
+  const activeUserIdRef = useRef(userId)
+  const messageInputRef = useRef<HTMLTextAreaElement>(null)
+  // Caret in the draft when editing started, put back once editing ends
+  const draftSelectionRef = useRef<{ start: number; end: number } | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  // Pending read call per conversation, so switching chats doesn't cancel the one we've left
+  const markReadTimeoutsRef = useRef(new Map<string, { timeout: number; upTo: string }>())
+  const { notifyTyping, stopTyping } = useTypingEmitter(userId)
+  const isPeerTyping = useIsTyping(userId)
+  const outboxEntries = useSyncExternalStore(outbox.subscribe, outbox.getSnapshot)
+  const sendShortcut = useAppSelector((state) => state.composerSettings.sendShortcut)
+  const dispatch = useAppDispatch()
+  const store = useAppStore()
 
   // WebSocket connection
   const handleWebSocketMessage = (message: Message) => {
-    console.log('📬 ChatWindow received WebSocket message:', {
-      messageId: message.id,
-      senderId: message.sender_id,
-      receiverId: message.receiver_id,
-      currentUserId: currentUser?.id,
-      selectedUserId: userId,
-    })
-
     // Only add message if it's for this chat
     // Check if message is between current user and selected user
     const isForThisChat =
@@ -57,99 +202,541 @@ export function ChatWindow({ userId, user, onMessageSent }: ChatWindowProps) {
       ((message.receiver_id === userId && message.sender_id === currentUser?.id) ||
         (message.sender_id === userId && message.receiver_id === currentUser?.id))
 
-    console.log('🔍 Is message for this chat?', isForThisChat)
-
     if (isForThisChat) {
       setMessages((prev) => {
         // Avoid duplicates by checking message ID
         if (prev.some((m) => m.id === message.id)) {
-          console.log('⚠️ Duplicate message detected, skipping:', message.id)
+          log.debug('Skipping duplicate message', message.id)
           return prev
         }
-        console.log('✅ Adding new message to chat:', message.id)
-        // Insert message in correct position (sorted by created_at)
-        const newMessages = [...prev, message].sort(
-          (a, b) =>
-            new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-        )
-        return newMessages
+        log.debug('Adding message to the open chat', message.id)
+        return insertMessageSorted(prev, message)
       })
-      scrollToBottom()
+
+      if (message.sender_id === userId) {
+        markAllAsRead([message])
+      }
 
       // Notify parent component about new message
       if (onMessageSent) {
         onMessageSent(message)
       }
-    } else {
-      console.log('❌ Message not for this chat, ignoring')
     }
   }
 
   useWebSocket(handleWebSocketMessage)
 
+  // Through a stable callback, so a new prop doesn't resubscribe to acks and miss one meanwhile
+  const notifyMessageSent = useStableCallback((message: Message) => {
+    onMessageSent?.(message)
+  })
+
+  // Outbox messages the server has accepted replace their pending bubbles
   useEffect(() => {
+    return outbox.onAck((message) => {
+      if (message.receiver_id !== userId) return
+
+      setMessages((prev) => {
+        if (prev.some((m) => m.id === message.id)) {
+          return prev
+        }
+        return insertMessageSorted(prev, message)
+      })
+      notifyMessageSent(message)
+    })
+  }, [userId, notifyMessageSent])
+
+  // Queued messages for this chat, shown after the delivered history
+  const pendingMessages = useMemo(
+    () =>
+      outboxEntries
+        .filter(
+          (entry) =>
+            entry.receiver_id === userId && !messages.some((m) => m.client_id === entry.client_id)
+        )
+        .map(
+          (entry): Message => ({
+            id: `temp-${entry.client_id}`,
+            client_id: entry.client_id,
+            content:
+              entry.content ||
+              (entry.media_type?.startsWith('image/')
+                ? t('chat.photo')
+                : entry.media_type?.startsWith('video/')
+                ? t('chat.video')
+                : entry.media_type
+                ? t('chat.file')
+                : ''),
+            sender_id: entry.sender_id,
+            receiver_id: entry.receiver_id,
+            media_url: entry.media_url,
+            media_type: entry.media_url ? entry.media_type : undefined,
+            is_read: false,
+            reply_to: entry.reply_to,
+            link_preview_disabled: entry.link_preview_disabled,
+            forwarded_from: entry.forwarded_from,
+            mentions: entry.mentions,
+            created_at: entry.created_at,
+            sender: currentUser || undefined,
+          })
+        ),
+    [outboxEntries, messages, userId, currentUser, t]
+  )
+  const outboxStatuses = useMemo(
+    () =>
+      new Map<string, OutboxEntry['status']>(
+        outboxEntries.map((entry) => [entry.client_id, entry.status])
+      ),
+    [outboxEntries]
+  )
+  const displayedMessages = useMemo(
+    () => [...messages, ...pendingMessages],
+    [messages, pendingMessages]
+  )
+
+  useLayoutEffect(() => {
+    messagesRef.current = messages
+  }, [messages])
+
+  // Preview of the first link in the composer, once typing pauses
+  const debouncedMessageText = useDebouncedValue(messageText, LINK_PREVIEW_DELAY)
+  const composerLinkUrl = useMemo(() => {
+    const url = editingMessage ? undefined : getFirstLinkUrl(debouncedMessageText)
+    return url !== removedPreviewUrl ? url : undefined
+  }, [debouncedMessageText, editingMessage, removedPreviewUrl])
+
+  const messageLayout = useMemo(() => getMessageLayout(displayedMessages), [displayedMessages])
+
+  // Only the rows near the viewport are in the DOM; heights are measured as they render
+  const virtualizer = useVirtualizer({
+    count: displayedMessages.length,
+    getScrollElement: () => scrollContainerRef.current,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    getItemKey: (index) => displayedMessages[index].id,
+    overscan: OVERSCAN,
+    // Rows carry their own top spacing; this keeps the same gap under the last one
+    paddingEnd: 16,
+  })
+
+  useEffect(() => {
+    activeUserIdRef.current = userId
+    setEditingMessage(null)
+    // Pick up where we left off in this conversation
+    const draft = userId ? store.getState().drafts.byPeer[userId] : undefined
+    setMessageText(draft?.text ?? '')
+    setReplyingTo(draft?.reply_to ?? null)
+    // Attachments and a removed link preview belong to the chat we've left
+    setSelectedFile(null)
+    setFilePreview(null)
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+    setRemovedPreviewUrl(null)
+    setLargePaste(null)
+    setMentionQuery(null)
+    setMentionedUsers([])
+    setProfileMention(null)
+    setSelectedMessageIds(null)
+    setPinnedMessages([])
+    setSearchQuery(null)
     if (userId) {
       loadMessages()
-      // Mark all messages as read when opening chat
-      markAllAsRead()
+      loadPinnedMessages()
     } else {
       setMessages([])
     }
-  }, [userId])
+  }, [userId, store])
 
-  const markAllAsRead = async () => {
+  // Edits, deletions and reactions made by either side, or by us on another device
+  useEffect(() => {
     if (!userId) return
-    
-    try {
-      // Get unread messages
-      const messages = await chatService.getMessages(userId, 100, 0)
-      const unreadMessages = messages.filter(
-        (msg) => !msg.is_read && msg.receiver_id === currentUser?.id
+
+    const unsubscribeUpdated = realtimeClient.on('message_updated', ({ type: _type, ...message }) => {
+      setMessages((prev) => applyMessageUpdate(prev, message))
+      setPinnedMessages((prev) => applyMessageUpdate(prev, message))
+    })
+
+    const unsubscribeDeleted = realtimeClient.on('message_deleted', (event) => {
+      setMessages((prev) =>
+        applyMessageDeletion(prev, event.message_id, event.for_everyone, event.deleted_at)
       )
-      
-      // Mark each as read
-      await Promise.all(
-        unreadMessages.map((msg) => chatService.markAsRead(msg.id))
+      setPinnedMessages((prev) => prev.filter((m) => m.id !== event.message_id))
+    })
+
+    const unsubscribeReactionAdded = realtimeClient.on('reaction_added', (event) => {
+      setMessages((prev) => applyReaction(prev, event.message_id, event.user_id, event.emoji, true))
+    })
+
+    const unsubscribeReactionRemoved = realtimeClient.on('reaction_removed', (event) => {
+      setMessages((prev) => applyReaction(prev, event.message_id, event.user_id, event.emoji, false))
+    })
+
+    // Pins are shared by both participants
+    const unsubscribePinned = realtimeClient.on('message_pinned', ({ type: _type, ...message }) => {
+      if (!currentUser || !isInConversation(message, currentUser.id, userId)) return
+      setMessages((prev) => applyPin(prev, message.id, message.pinned_at))
+      setPinnedMessages((prev) => addPinnedMessage(prev, message))
+    })
+
+    const unsubscribeUnpinned = realtimeClient.on('message_unpinned', (event) => {
+      setMessages((prev) => applyPin(prev, event.message_id, undefined))
+      setPinnedMessages((prev) => prev.filter((m) => m.id !== event.message_id))
+    })
+
+    return () => {
+      unsubscribeUpdated()
+      unsubscribeDeleted()
+      unsubscribeReactionAdded()
+      unsubscribeReactionRemoved()
+      unsubscribePinned()
+      unsubscribeUnpinned()
+    }
+  }, [userId, currentUser])
+
+  // Reload the conversation if missed messages couldn't be replayed after a reconnect
+  useEffect(() => {
+    if (!userId) return
+
+    return realtimeClient.onResync(() => {
+      loadMessages()
+      loadPinnedMessages()
+    })
+  }, [userId])
+
+  // Keep tick marks on our own messages in sync with the peer
+  useEffect(() => {
+    if (!userId) return
+
+    const unsubscribeReadReceipt = realtimeClient.on('read_receipt', (event) => {
+      if (event.reader_id !== userId) return
+
+      setMessages((prev) => {
+        const readUpTo = prev.find((m) => m.id === event.message_id)
+        const cutoff = new Date(readUpTo?.created_at ?? event.read_at).getTime()
+        return prev.map((m) =>
+          m.receiver_id === userId &&
+          !m.is_read &&
+          new Date(m.created_at).getTime() <= cutoff
+            ? { ...m, is_read: true }
+            : m
+        )
+      })
+    })
+
+    const unsubscribeDelivered = realtimeClient.on('message_delivered', (event) => {
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === event.message_id ? { ...m, delivered_at: event.delivered_at } : m
+        )
       )
-    } catch (error) {
-      console.error('Failed to mark messages as read:', error)
+    })
+
+    // This conversation was read in another tab
+    const unsubscribeTabEvents = realtimeClient.onTabEvent((event) => {
+      if (event.type !== 'conversation_read') return
+      // That tab already sent the read call this one was about to send
+      const pending = markReadTimeoutsRef.current.get(event.peer_id)
+      if (pending && new Date(pending.upTo).getTime() <= new Date(event.read_up_to).getTime()) {
+        clearTimeout(pending.timeout)
+        markReadTimeoutsRef.current.delete(event.peer_id)
+      }
+      if (event.peer_id === userId) {
+        applyLocalRead(event.peer_id, event.read_up_to)
+      }
+    })
+
+    return () => {
+      unsubscribeReadReceipt()
+      unsubscribeDelivered()
+      unsubscribeTabEvents()
     }
+  }, [userId])
+
+  useEffect(() => {
+    const markReadTimeouts = markReadTimeoutsRef.current
+    return () => {
+      markReadTimeouts.forEach(({ timeout }) => clearTimeout(timeout))
+      if (highlightTimeoutRef.current !== undefined) {
+        clearTimeout(highlightTimeoutRef.current)
+      }
+    }
+  }, [])
+
+  // Flags messages from peerId up to the given time as read in this view
+  const applyLocalRead = (peerId: string, readUpTo: string) => {
+    const cutoff = new Date(readUpTo).getTime()
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.sender_id === peerId && !m.is_read && new Date(m.created_at).getTime() <= cutoff
+          ? { ...m, is_read: true }
+          : m
+      )
+    )
   }
 
+  // Marks everything up to the newest unread incoming message as read in one request.
+  // Only while this tab is visible, so receipts never claim unseen messages were read.
+  const markAllAsRead = useStableCallback((conversation: Message[]) => {
+    if (!userId || document.visibilityState !== 'visible') return
+
+    const peerId = userId
+    const lastUnread = [...conversation]
+      .reverse()
+      .find((msg) => msg.sender_id === peerId && !msg.is_read)
+    if (!lastUnread) return
+
+    const timeouts = markReadTimeoutsRef.current
+    const pending = timeouts.get(peerId)
+    if (pending) {
+      clearTimeout(pending.timeout)
+    }
+    const timeout = window.setTimeout(async () => {
+      timeouts.delete(peerId)
+      try {
+        await chatService.markAsReadUpTo(peerId, lastUnread.id)
+        applyLocalRead(peerId, lastUnread.created_at)
+        // Other tabs clear their unread counters and drop their own pending call
+        realtimeClient.publishTabEvent({
+          type: 'conversation_read',
+          peer_id: peerId,
+          read_up_to: lastUnread.created_at,
+        })
+      } catch (error) {
+        log.error('Failed to mark messages as read', error)
+      }
+    }, MARK_READ_DELAY)
+    timeouts.set(peerId, { timeout, upTo: lastUnread.created_at })
+  })
+
+  // What arrived while the tab was in the background counts as read once it's shown
   useEffect(() => {
-    scrollToBottom()
-  }, [messages])
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        markAllAsRead(messagesRef.current)
+      }
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [markAllAsRead])
+
+  // Follow new messages only while the user is at the bottom; someone reading history
+  // stays where they are. Sending a message counts as being at the bottom.
+  const lastMessageId = displayedMessages[displayedMessages.length - 1]?.id
+  useLayoutEffect(() => {
+    if (lastMessageId && isNearBottomRef.current) {
+      virtualizer.scrollToIndex(virtualizer.options.count - 1, { align: 'end' })
+    }
+  }, [lastMessageId, virtualizer])
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const container = e.currentTarget
+    isNearBottomRef.current =
+      container.scrollHeight - container.scrollTop - container.clientHeight < NEAR_BOTTOM_THRESHOLD
+    if (container.scrollTop < LOAD_OLDER_THRESHOLD) {
+      void loadOlderMessages()
+    }
+  }
 
   const loadMessages = async () => {
     if (!userId) return
 
     try {
       setIsLoading(true)
-      const loadedMessages = await chatService.getMessages(userId, 50, 0)
-      setMessages(loadedMessages.reverse()) // Reverse to show oldest first
+      const loadedMessages = await chatService.getMessages(userId, PAGE_SIZE)
+      if (activeUserIdRef.current !== userId) return
+
+      const orderedMessages = loadedMessages.reverse() // Reverse to show oldest first
+      isNearBottomRef.current = true
+      setHasMoreHistory(loadedMessages.length === PAGE_SIZE)
+      setMessages(orderedMessages)
+      setLoadedUserId(userId)
+      // Mark all messages as read when opening chat
+      markAllAsRead(orderedMessages)
     } catch (error) {
-      console.error('Failed to load messages:', error)
+      log.error('Failed to load messages', error)
       toast.error(t('common.error'))
     } finally {
-      setIsLoading(false)
+      if (activeUserIdRef.current === userId) {
+        setIsLoading(false)
+      }
     }
   }
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
+  const loadPinnedMessages = async () => {
+    if (!userId) return
+
+    try {
+      const pinned = await chatService.getPinnedMessages(userId)
+      // Ignore a response for a conversation we've already left
+      if (activeUserIdRef.current !== userId) return
+      setPinnedMessages(pinned)
+    } catch (error) {
+      log.error('Failed to load pinned messages', error)
+    }
+  }
+
+  // Refetches the loaded messages and pins, which may have been edited, deleted, reacted
+  // to, pinned or read while we were offline
+  const refreshConversation = useStableCallback(async () => {
+    if (!userId) return
+
+    void loadPinnedMessages()
+    try {
+      const limit = Math.min(Math.max(messagesRef.current.length, PAGE_SIZE), REFRESH_LIMIT)
+      const latest = (await chatService.getMessages(userId, limit)).reverse()
+      if (activeUserIdRef.current !== userId) return
+
+      // A short page is the whole conversation, so nothing else is kept
+      const windowStart = latest.length === limit ? new Date(latest[0].created_at).getTime() : -Infinity
+      setMessages((prev) => [
+        ...prev.filter((m) => new Date(m.created_at).getTime() < windowStart),
+        ...latest,
+      ])
+      if (latest.length < limit) {
+        setHasMoreHistory(false)
+      }
+      markAllAsRead(latest)
+    } catch (error) {
+      log.error('Failed to refresh messages', error)
+    }
+  })
+
+  // Only new messages are replayed after a reconnect; refetch the rest of what's shown
+  useEffect(() => {
+    if (!userId) return
+
+    return realtimeClient.onReconnected(() => {
+      void refreshConversation()
+    })
+  }, [userId, refreshConversation])
+
+  // One page of history older than the given message, oldest first
+  const fetchOlderPage = async (before: string) => {
+    const older = await chatService.getMessages(userId ?? undefined, PAGE_SIZE, before)
+    return { messages: older.reverse(), hasMore: older.length === PAGE_SIZE }
+  }
+
+  // Renders older messages above the current ones synchronously so the caller can
+  // adjust the scroll position before the browser paints. Rows keep their measured
+  // heights across the shift because they're keyed by message id.
+  const prependMessages = (older: Message[], hasMore: boolean) => {
+    flushSync(() => {
+      setMessages((prev) => {
+        const knownIds = new Set(prev.map((m) => m.id))
+        return [...older.filter((m) => !knownIds.has(m.id)), ...prev]
+      })
+      setHasMoreHistory(hasMore)
+    })
+  }
+
+  const loadOlderMessages = async () => {
+    const oldest = messages[0]
+    if (!userId || !oldest || !hasMoreHistory || isLoading || isLoadingOlderRef.current) return
+
+    isLoadingOlderRef.current = true
+    setIsLoadingOlder(true)
+    try {
+      const page = await fetchOlderPage(oldest.id)
+      if (activeUserIdRef.current !== userId) return
 
-    // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'video/mp4', 'video/webm']
-    if (!allowedTypes.includes(file.type)) {
-      toast.error(t('chat.invalidFileType'))
+      // Keep the same messages in view: restore the distance from the bottom,
+      // which prepending doesn't change. Rows measured later above the viewport
+      // are compensated by the virtualizer itself.
+      const container = scrollContainerRef.current
+      const offsetFromBottom = container ? container.scrollHeight - container.scrollTop : 0
+      prependMessages(page.messages, page.hasMore)
+      if (container) {
+        container.scrollTop = container.scrollHeight - offsetFromBottom
+      }
+    } catch (error) {
+      log.error('Failed to load older messages', error)
+      toast.error(t('common.error'))
+    } finally {
+      isLoadingOlderRef.current = false
+      setIsLoadingOlder(false)
+    }
+  }
+
+  // Loads the message with its neighbours, then everything between them and the loaded
+  // history so the list stays contiguous. Returns the older messages to prepend, or
+  // null if the message isn't in this conversation.
+  const loadHistoryAround = async (messageId: string) => {
+    const oldest = messages[0]
+    if (!userId || !oldest || !hasMoreHistory) return null
+
+    const around = (await chatService.getMessagesAround(userId, messageId, PAGE_SIZE)).reverse()
+    if (activeUserIdRef.current !== userId || !around.some((m) => m.id === messageId)) return null
+
+    const oldestTime = new Date(oldest.created_at).getTime()
+    let older = around
+    let newest = around[around.length - 1]
+    while (new Date(newest.created_at).getTime() < oldestTime) {
+      const newer = await chatService.getMessagesAfter(userId, newest.id, GAP_PAGE_SIZE)
+      if (activeUserIdRef.current !== userId) return null
+      if (newer.length === 0) break
+
+      older = [...older, ...newer]
+      newest = newer[newer.length - 1]
+    }
+    // A window doesn't tell whether there's more before it; an empty older page will
+    return { messages: older, hasMore: true }
+  }
+
+  // Expects the message to be in the list already (flushSync after loading)
+  const highlightMessage = (messageId: string) => {
+    const index = messagesRef.current.findIndex((m) => m.id === messageId)
+    if (index < 0) return
+
+    isNearBottomRef.current = false
+    virtualizer.scrollToIndex(index, { align: 'center' })
+    setHighlightedMessageId(messageId)
+    if (highlightTimeoutRef.current !== undefined) {
+      clearTimeout(highlightTimeoutRef.current)
+    }
+    highlightTimeoutRef.current = window.setTimeout(() => {
+      highlightTimeoutRef.current = undefined
+      setHighlightedMessageId(null)
+    }, HIGHLIGHT_DURATION)
+  }
+
+  // Scrolls to a quoted, pinned or found message, loading history up to it if needed
+  const jumpToMessage = useStableCallback(async (messageId: string) => {
+    if (messages.some((m) => m.id === messageId)) {
+      highlightMessage(messageId)
       return
     }
 
-    // Validate file size (10MB)
-    const maxSize = 10 * 1024 * 1024 // 10MB
-    if (file.size > maxSize) {
-      toast.error(t('chat.fileTooLarge'))
+    try {
+      const loaded = await loadHistoryAround(messageId)
+      if (!loaded) {
+        if (activeUserIdRef.current === userId) {
+          toast.error(t('chat.messageNotFound'))
+        }
+        return
+      }
+      prependMessages(loaded.messages, loaded.hasMore)
+      highlightMessage(messageId)
+    } catch (error) {
+      log.error('Failed to load history around message', error)
+      toast.error(t('common.error'))
+    }
+  })
+
+  // Open at a message picked in the sidebar search once its conversation is loaded and shown
+  useEffect(() => {
+    if (!focusMessage || focusMessage === handledFocusRef.current) return
+    if (focusMessage.userId !== userId || loadedUserId !== userId || !user) return
+
+    handledFocusRef.current = focusMessage
+    void jumpToMessage(focusMessage.messageId)
+  }, [focusMessage, userId, loadedUserId, user, jumpToMessage])
+
+  const attachFile = (file: File) => {
+    const error = getAttachmentError(file)
+    if (error) {
+      toast.error(t(error))
       return
     }
 
@@ -167,6 +754,13 @@ export function ChatWindow({ userId, user, onMessageSent }: ChatWindowProps) {
     }
   }
 
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      attachFile(file)
+    }
+  }
+
   const removeSelectedFile = () => {
     setSelectedFile(null)
     setFilePreview(null)
@@ -175,109 +769,396 @@ export function ChatWindow({ userId, user, onMessageSent }: ChatWindowProps) {
     }
   }
 
-  const sendMessage = async () => {
-    if ((!messageText.trim() && !selectedFile) || !userId || isSending || isUploading) return
+  // Composer text; outside of editing it's also saved as the conversation's draft
+  const changeMessageText = (text: string) => {
+    setMessageText(text)
+    if (userId && !editingMessage) {
+      dispatch(updateDraft(userId, { text }))
+    }
+  }
 
-    const messageContent = messageText.trim() || ''
-    setMessageText('') // Clear input immediately for better UX
+  // Puts the caret (or a selection) in place once React has written the new composer value
+  const restoreSelection = (start: number, end = start) => {
+    requestAnimationFrame(() => {
+      messageInputRef.current?.setSelectionRange(start, end)
+    })
+  }
+
+  const changeReplyingTo = useStableCallback((reply: MessageReplyPreview | null) => {
+    setReplyingTo(reply)
+    if (userId) {
+      dispatch(updateDraft(userId, { reply_to: reply ?? undefined }))
+    }
+  })
+
+  const startReplying = useStableCallback((message: Message) => {
+    if (editingMessage) {
+      cancelEditing()
+    }
+    changeReplyingTo(toReplyPreview(message))
+    messageInputRef.current?.focus()
+  })
+
+  // The draft stays saved while editing and comes back afterwards
+  const startEditing = useStableCallback((message: Message) => {
+    const input = messageInputRef.current
+    if (!editingMessage && input) {
+      draftSelectionRef.current = { start: input.selectionStart, end: input.selectionEnd }
+    }
+    removeSelectedFile()
+    setReplyingTo(null)
+    setEditingMessage(message)
+    setMessageText(message.content)
+    const mentionedInMessage = message.mentions?.flatMap((mention) => (mention.user ? [mention.user] : []))
+    if (mentionedInMessage?.length) {
+      setMentionedUsers((prev) => [...prev, ...mentionedInMessage])
+    }
+    input?.focus()
+    restoreSelection(message.content.length)
+  })
+
+  const cancelEditing = useStableCallback(() => {
+    setEditingMessage(null)
+    const draft = userId ? store.getState().drafts.byPeer[userId] : undefined
+    const text = draft?.text ?? ''
+    setMessageText(text)
+    setReplyingTo(draft?.reply_to ?? null)
+    const selection = draftSelectionRef.current
+    draftSelectionRef.current = null
+    restoreSelection(
+      Math.min(selection?.start ?? text.length, text.length),
+      Math.min(selection?.end ?? text.length, text.length)
+    )
+  })
+
+  // Stop editing or replying to a message that got deleted in the meantime
+  useEffect(() => {
+    if (!editingMessage && !replyingTo) return
+
+    return realtimeClient.on('message_deleted', (event) => {
+      if (event.message_id === editingMessage?.id) {
+        cancelEditing()
+      }
+      if (event.message_id === replyingTo?.id) {
+        changeReplyingTo(null)
+      }
+    })
+  }, [editingMessage, replyingTo, cancelEditing, changeReplyingTo])
+
+  const saveEdit = async () => {
+    if (!editingMessage) return
 
-    let mediaUrl: string | undefined
-    let mediaType: string | undefined
+    const content = messageText.trim()
+    // A media message may lose its caption; a text message can't become empty
+    if (!content && !editingMessage.media_url) return
+    if (content === editingMessage.content) {
+      cancelEditing()
+      return
+    }
 
+    const messageId = editingMessage.id
+    cancelEditing()
     try {
-      setIsSending(true)
-
-      // Upload file if selected
-      if (selectedFile) {
-        setIsUploading(true)
-        try {
-          const uploadResult = await chatService.uploadFile(selectedFile)
-          mediaUrl = uploadResult.url
-          mediaType = uploadResult.content_type
-          removeSelectedFile()
-        } catch (error) {
-          console.error('Failed to upload file:', error)
-          toast.error(t('chat.uploadFailed'))
-          setIsUploading(false)
-          setIsSending(false)
-          return
-        } finally {
-          setIsUploading(false)
-        }
+      const updated = await chatService.editMessage(messageId, content, getMentions(content))
+      setMessages((prev) => applyMessageUpdate(prev, updated))
+      setPinnedMessages((prev) => applyMessageUpdate(prev, updated))
+    } catch (error) {
+      log.error('Failed to edit message', error)
+      toast.error(t('chat.editFailed'))
+    }
+  }
+
+  const deleteMessage = useStableCallback(async (message: Message, forEveryone: boolean) => {
+    if (editingMessage?.id === message.id) {
+      cancelEditing()
+    }
+    if (replyingTo?.id === message.id) {
+      changeReplyingTo(null)
+    }
+    try {
+      await chatService.deleteMessage(message.id, forEveryone)
+      const deletedAt = new Date().toISOString()
+      setMessages((prev) => applyMessageDeletion(prev, message.id, forEveryone, deletedAt))
+      setPinnedMessages((prev) => prev.filter((m) => m.id !== message.id))
+    } catch (error) {
+      log.error('Failed to delete message', error)
+      toast.error(t('chat.deleteFailed'))
+    }
+  })
+
+  // Applied right away; the socket echo of our own change is a no-op
+  const toggleReaction = useStableCallback(async (message: Message, emoji: string) => {
+    if (!currentUser) return
+
+    const hasReacted = !!message.reactions
+      ?.find((reaction) => reaction.emoji === emoji)
+      ?.user_ids.includes(currentUser.id)
+    setMessages((prev) => applyReaction(prev, message.id, currentUser.id, emoji, !hasReacted))
+    try {
+      if (hasReacted) {
+        await chatService.removeReaction(message.id, emoji)
+      } else {
+        await chatService.addReaction(message.id, emoji)
       }
+    } catch (error) {
+      log.error('Failed to update reaction', error)
+      setMessages((prev) => applyReaction(prev, message.id, currentUser.id, emoji, hasReacted))
+      toast.error(t('chat.reactionFailed'))
+    }
+  })
 
-      // Optimistic update - add message immediately
-      const tempId = `temp-${Date.now()}`
-      const optimisticMessage: Message = {
-        id: tempId,
-        content: messageContent || (mediaUrl ? (mediaType?.startsWith('image/') ? '📷 Image' : '🎥 Video') : ''),
-        sender_id: currentUser?.id || '',
-        receiver_id: userId,
-        group_id: undefined,
-        media_url: mediaUrl,
-        media_type: mediaType,
-        is_read: false,
-        created_at: new Date().toISOString(),
-        sender: currentUser || undefined,
+  const togglePin = useStableCallback(async (message: Message) => {
+    try {
+      if (message.pinned_at) {
+        await chatService.unpinMessage(message.id)
+        setMessages((prev) => applyPin(prev, message.id, undefined))
+        setPinnedMessages((prev) => prev.filter((m) => m.id !== message.id))
+      } else {
+        const pinned = await chatService.pinMessage(message.id)
+        setMessages((prev) => applyPin(prev, message.id, pinned.pinned_at))
+        setPinnedMessages((prev) => addPinnedMessage(prev, pinned))
       }
+    } catch (error) {
+      log.error('Failed to update pin', error)
+      toast.error(t('chat.pinFailed'))
+    }
+  })
 
-      // Add optimistic message
-      setMessages((prev) => {
-        if (prev.some((m) => m.id === tempId)) {
-          return prev
-        }
-        return [...prev, optimisticMessage]
-      })
-      scrollToBottom()
+  const startForwarding = useStableCallback((message: Message) => {
+    setForwardingMessages([message])
+  })
 
-      // Send message to server
-      const newMessage = mediaUrl
-        ? await chatService.sendMessageWithMedia(messageContent, mediaUrl, mediaType!, userId)
-        : await chatService.sendMessage(messageContent, userId)
+  const startSelecting = useStableCallback((message: Message) => {
+    setSelectedMessageIds(new Set([message.id]))
+  })
 
-      // Replace optimistic message with real message from server
-      setMessages((prev) => {
-        // Remove optimistic message
-        const withoutTemp = prev.filter((m) => m.id !== tempId)
-        // Add real message if not already present (WebSocket might have added it)
-        if (!withoutTemp.some((m) => m.id === newMessage.id)) {
-          return [...withoutTemp, newMessage].sort(
-            (a, b) =>
-              new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-          )
-        }
-        return withoutTemp
-      })
+  const toggleSelected = useStableCallback((message: Message) => {
+    setSelectedMessageIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(message.id)) {
+        next.delete(message.id)
+      } else {
+        next.add(message.id)
+      }
+      return next
+    })
+  })
 
-      // Notify parent component
-      if (onMessageSent) {
-        onMessageSent(newMessage)
+  const forwardSelected = () => {
+    if (!selectedMessageIds) return
+    // In chat order, which is the order they arrive in at the other end
+    setForwardingMessages(messages.filter((message) => selectedMessageIds.has(message.id)))
+  }
+
+  // Each message goes through the outbox per target, keeping its media and original author
+  const forwardMessages = (targets: User[]) => {
+    if (!forwardingMessages) return
+
+    for (const target of targets) {
+      for (const message of forwardingMessages) {
+        outbox.enqueue({
+          receiver_id: target.id,
+          content: message.content,
+          media_url: message.media_url,
+          media_type: message.media_type,
+          link_preview_disabled: message.link_preview_disabled,
+          mentions: message.mentions,
+          forwarded_from: toForwardSource(
+            message,
+            message.sender_id === currentUser?.id ? currentUser : user ?? undefined
+          ),
+        })
       }
-    } catch (error) {
-      console.error('Failed to send message:', error)
-      toast.error(t('common.error'))
-      // Restore message text on error
-      setMessageText(messageContent)
-      // Remove optimistic message on error
-      setMessages((prev) => prev.filter((m) => !m.id.startsWith('temp-')))
-    } finally {
-      setIsSending(false)
     }
+    if (targets.some((target) => target.id === userId)) {
+      isNearBottomRef.current = true
+    }
+    setForwardingMessages(null)
+    setSelectedMessageIds(null)
+    toast.success(t('chat.forwarded'))
   }
 
-  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
+  const openMedia = useStableCallback((media: { url: string; type: string }) => {
+    setSelectedMedia(media)
+    setMediaModalOpen(true)
+  })
+
+  const openProfile = useStableCallback((mention: MessageMention) => {
+    setProfileMention(mention)
+  })
+
+  // Mention entities for the composer text: people picked from the suggestions, and
+  // the person we're talking to, who can also be mentioned by typing their name out
+  const getMentions = (content: string) =>
+    getMentionEntities(content, user ? [...mentionedUsers, user] : mentionedUsers)
+
+  const sendMessage = () => {
+    if (editingMessage) {
+      void saveEdit()
+      return
+    }
+    if ((!messageText.trim() && !selectedFile) || !userId) return
+
+    const content = messageText.trim()
+    // Queued in the outbox, which shows a pending bubble and sends it (now or once back online)
+    outbox.enqueue({
+      receiver_id: userId,
+      content,
+      file: selectedFile ?? undefined,
+      media_type: selectedFile?.type,
+      reply_to: replyingTo ?? undefined,
+      mentions: getMentions(content),
+      link_preview_disabled:
+        removedPreviewUrl !== null && removedPreviewUrl === getFirstLinkUrl(content),
+    })
+    setMessageText('') // Clear input immediately for better UX
+    setReplyingTo(null)
+    dispatch(clearDraft(userId))
+    setRemovedPreviewUrl(null)
+    stopTyping()
+    removeSelectedFile()
+    // The new pending bubble scrolls into view
+    isNearBottomRef.current = true
+  }
+
+  const applyFormatting = (input: HTMLTextAreaElement, marker: string) => {
+    const result = toggleFormatting(messageText, input.selectionStart, input.selectionEnd, marker)
+    changeMessageText(result.text)
+    restoreSelection(result.selectionStart, result.selectionEnd)
+  }
+
+  // Follows the caret, so the suggestions close once it leaves the @mention
+  const updateMentionQuery = (input: HTMLTextAreaElement) => {
+    const next =
+      input.selectionStart === input.selectionEnd
+        ? getMentionQuery(input.value, input.selectionStart)
+        : null
+    if (next?.start !== mentionQuery?.start || next?.query !== mentionQuery?.query) {
+      setMentionQuery(next)
+      setActiveSuggestion(0)
+    }
+  }
+
+  const pickMention = (mentioned: User) => {
+    const input = messageInputRef.current
+    if (!mentionQuery || !input) return
+
+    const result = insertMention(messageText, mentionQuery.start, input.selectionStart, mentioned.username)
+    changeMessageText(result.text)
+    setMentionedUsers((prev) => [...prev, mentioned])
+    setMentionQuery(null)
+    input.focus()
+    restoreSelection(result.caret)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (mentionSuggestions.length > 0 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        setActiveSuggestion(
+          (activeSuggestion + step + mentionSuggestions.length) % mentionSuggestions.length
+        )
+        return
+      }
+      if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+        e.preventDefault()
+        pickMention(mentionSuggestions[Math.min(activeSuggestion, mentionSuggestions.length - 1)])
+        return
+      }
+      if (e.key === 'Escape') {
+        setMentionQuery(null)
+        return
+      }
+    }
+
+    const formattingMarker =
+      (e.ctrlKey || e.metaKey) && !e.altKey ? FORMATTING_SHORTCUTS[e.key.toLowerCase()] : undefined
+    // Ctrl/Cmd+Enter always sends; plain Enter only unless set to insert new lines
+    const sendsOnEnter = sendShortcut === 'enter' || e.ctrlKey || e.metaKey
+    if (formattingMarker) {
+      e.preventDefault()
+      applyFormatting(e.currentTarget, formattingMarker)
+    } else if (e.key === 'Enter' && !e.shiftKey && sendsOnEnter && !e.nativeEvent.isComposing) {
       e.preventDefault()
       sendMessage()
+    } else if (e.key === 'Escape') {
+      if (editingMessage) {
+        cancelEditing()
+      } else {
+        changeReplyingTo(null)
+      }
     }
   }
 
-  const scrollToBottom = () => {
-    setTimeout(() => {
-      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-    }, 100)
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    // Attachments can't be added while editing, so long text goes in as usual then
+    if (editingMessage) return
+
+    const text = e.clipboardData.getData('text/plain')
+    if (text.length <= LARGE_PASTE_THRESHOLD) return
+
+    // Too large to upload; the text goes in as usual
+    const file = new File([text], PASTED_TEXT_FILE_NAME, { type: 'text/plain' })
+    if (getAttachmentError(file)) return
+
+    e.preventDefault()
+    setLargePaste({
+      text,
+      file,
+      selectionStart: e.currentTarget.selectionStart,
+      selectionEnd: e.currentTarget.selectionEnd,
+    })
+  }
+
+  const pasteAsText = () => {
+    if (!largePaste) return
+
+    const { text, selectionStart, selectionEnd } = largePaste
+    setLargePaste(null)
+    changeMessageText(messageText.slice(0, selectionStart) + text + messageText.slice(selectionEnd))
+    notifyTyping()
+    messageInputRef.current?.focus()
+    restoreSelection(selectionStart + text.length)
+  }
+
+  const sendPasteAsFile = () => {
+    if (!largePaste) return
+
+    attachFile(largePaste.file)
+    setLargePaste(null)
+    messageInputRef.current?.focus()
   }
 
+  const mentionParticipants = useMemo(() => (user ? [user] : []), [user])
+  const mentionSuggestions = useMentionSuggestions(
+    mentionQuery?.query ?? null,
+    mentionParticipants,
+    currentUser?.id
+  )
+
+  // Grow the composer with its text up to the cap, then let it scroll. Also runs when
+  // the composer comes back after the selection bar or another chat replaced it.
+  const isComposerShown = !!user && !selectedMessageIds
+  useLayoutEffect(() => {
+    const input = messageInputRef.current
+    if (!input) return
+
+    input.style.height = 'auto'
+    input.style.height = `${Math.min(input.scrollHeight, MAX_COMPOSER_HEIGHT)}px`
+    input.style.overflowY = input.scrollHeight > MAX_COMPOSER_HEIGHT ? 'auto' : 'hidden'
+  }, [messageText, isComposerShown])
+
+  // Day of the topmost visible row, pinned over the list once its own separator
+  // has scrolled out of view
+  const virtualItems = virtualizer.getVirtualItems()
+  const scrollOffset = virtualizer.scrollOffset ?? 0
+  const topItem = virtualItems.find((item) => item.end > scrollOffset)
+  const stickyDay =
+    topItem && !(messageLayout[topItem.index]?.startsDay && topItem.start >= scrollOffset)
+      ? new Date(displayedMessages[topItem.index].created_at)
+      : null
+
   if (!userId || !user) {
     return (
       <div className="flex-1 flex items-center justify-center bg-background">
@@ -293,112 +1174,178 @@ export function ChatWindow({ userId, user, onMessageSent }: ChatWindowProps) {
       {/* Chat Header */}
       <div className="p-4 border-b bg-muted/30 flex-shrink-0">
         <div className="flex items-center gap-3">
-          <div className="relative">
-            <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center text-primary font-semibold">
-              {user.username?.[0]?.toUpperCase() || user.email[0]?.toUpperCase() || '?'}
-            </div>
-            {user.is_online && (
-              <div className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 rounded-full border-2 border-background" />
-            )}
-          </div>
-          <div>
+          <UserAvatar user={user} />
+          <div className="flex-1 min-w-0">
             <p className="font-semibold text-foreground">{user.username || user.email}</p>
-            <p className="text-sm text-muted-foreground">
-              {user.is_online ? t('chat.online') : user.last_seen ? t('chat.lastSeen') : ''}
-            </p>
+            {isPeerTyping ? (
+              <p className="text-sm text-primary italic">{t('chat.typing')}</p>
+            ) : (
+              <PresenceStatus user={user} />
+            )}
           </div>
+          <Button
+            variant={searchQuery !== null ? 'secondary' : 'ghost'}
+            size="icon"
+            onClick={() => setSearchQuery((prev) => (prev === null ? '' : null))}
+            aria-label={t('chat.searchInChat')}
+            aria-pressed={searchQuery !== null}
+            title={t('chat.searchInChat')}
+          >
+            <Search className="h-5 w-5" />
+          </Button>
         </div>
       </div>
 
+      {searchQuery !== null && (
+        <ChatSearchBar
+          peerId={userId}
+          query={searchQuery}
+          onQueryChange={setSearchQuery}
+          onJump={jumpToMessage}
+          onClose={() => setSearchQuery(null)}
+        />
+      )}
+
+      <PinnedBar
+        key={userId}
+        pinnedMessages={pinnedMessages}
+        onJump={(message) => void jumpToMessage(message.id)}
+        onUnpin={togglePin}
+      />
+
       {/* Messages Area */}
-      <ScrollArea className="flex-1 p-4">
-        {isLoading ? (
-          <div className="text-center text-muted-foreground py-8">{t('common.loading')}</div>
-        ) : messages.length === 0 ? (
-          <div className="text-center text-muted-foreground py-8">{t('chat.noMessages')}</div>
-        ) : (
-          <div className="space-y-4">
-            {messages.map((message) => {
-              const isOwn = message.sender_id === currentUser?.id
-              return (
-                <div
-                  key={message.id}
-                  className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}
-                >
+      <div className="relative flex-1 min-h-0">
+        <div
+          ref={scrollContainerRef}
+          onScroll={handleScroll}
+          className="h-full overflow-y-auto px-4"
+        >
+          {isLoading ? (
+            <div className="text-center text-muted-foreground py-8">{t('common.loading')}</div>
+          ) : displayedMessages.length === 0 ? (
+            <div className="text-center text-muted-foreground py-8">{t('chat.noMessages')}</div>
+          ) : (
+            <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+              {virtualItems.map((item) => {
+                const message = displayedMessages[item.index]
+                const layout = messageLayout[item.index]
+                const isOwn = message.sender_id === currentUser?.id
+                return (
                   <div
-                    className={`max-w-[70%] rounded-lg px-4 py-2 ${
-                      isOwn
-                        ? 'bg-primary text-primary-foreground'
-                        : 'bg-muted text-foreground'
-                    }`}
-                  >
-                    {!isOwn && message.sender && (
-                      <p className="text-xs font-semibold mb-1 opacity-80">
-                        {message.sender.username || message.sender.email}
-                      </p>
-                    )}
-                    {/* Media display */}
-                    {message.media_url && (
-                      <div className="mb-2 rounded-lg overflow-hidden max-w-full">
-                        {message.media_type?.startsWith('image/') ? (
-                          <img
-                            src={`${API_BASE_URL}${message.media_url}`}
-                            alt={message.content || 'Image'}
-                            className="max-w-full h-auto rounded-lg cursor-pointer hover:opacity-90 transition-opacity"
-                            onClick={() => {
-                              setSelectedMedia({
-                                url: `${API_BASE_URL}${message.media_url}`,
-                                type: message.media_type || 'image',
-                              })
-                              setMediaModalOpen(true)
-                            }}
-                            onError={(e) => {
-                              // Fallback if image fails to load
-                              const target = e.target as HTMLImageElement
-                              target.style.display = 'none'
-                            }}
-                          />
-                        ) : message.media_type?.startsWith('video/') ? (
-                          <div className="relative">
-                            <video
-                              src={`${API_BASE_URL}${message.media_url}`}
-                              controls
-                              className="max-w-full h-auto rounded-lg"
-                              style={{ maxHeight: '400px' }}
-                              onDoubleClick={() => {
-                                setSelectedMedia({
-                                  url: `${API_BASE_URL}${message.media_url}`,
-                                  type: message.media_type || 'video',
-                                })
-                                setMediaModalOpen(true)
-                              }}
-                            >
-                              {t('chat.videoNotSupported')}
-                            </video>
-                            <div className="absolute bottom-2 right-2 bg-black/50 text-white px-2 py-1 rounded text-xs opacity-0 hover:opacity-100 transition-opacity pointer-events-none">
-                              {t('chat.doubleClickForFullscreen')}
-                            </div>
-                          </div>
-                        ) : null}
-                      </div>
+                    key={item.key}
+                    ref={virtualizer.measureElement}
+                    data-index={item.index}
+                    className={cn(
+                      'absolute left-0 top-0 w-full',
+                      layout.startsGroup ? 'pt-4' : 'pt-1'
                     )}
-                    {message.content && (
-                      <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+                    style={{ transform: `translateY(${item.start}px)` }}
+                  >
+                    {layout.startsDay && (
+                      <DaySeparator date={new Date(message.created_at)} className="pb-4" />
                     )}
-                    <p className="text-xs mt-1 opacity-70">
-                      {new Date(message.created_at).toLocaleTimeString([], {
-                        hour: '2-digit',
-                        minute: '2-digit',
-                      })}
-                    </p>
+                    <MessageBubble
+                      message={message}
+                      isOwn={isOwn}
+                      currentUserId={currentUser?.id}
+                      peer={user}
+                      outboxStatus={
+                        message.id.startsWith('temp-')
+                          ? outboxStatuses.get(message.client_id ?? '')
+                          : undefined
+                      }
+                      isHighlighted={highlightedMessageId === message.id}
+                      searchQuery={highlightQuery}
+                      showSenderName={layout.startsGroup}
+                      showAvatar={layout.endsGroup}
+                      onReact={toggleReaction}
+                      onReply={startReplying}
+                      onEdit={startEditing}
+                      onDelete={deleteMessage}
+                      onForward={startForwarding}
+                      onSelect={startSelecting}
+                      onTogglePin={togglePin}
+                      onToggleSelected={selectedMessageIds ? toggleSelected : undefined}
+                      isSelected={selectedMessageIds?.has(message.id)}
+                      onJumpToMessage={jumpToMessage}
+                      onOpenMedia={openMedia}
+                      onOpenProfile={openProfile}
+                    />
                   </div>
-                </div>
-              )
-            })}
-            <div ref={messagesEndRef} />
+                )
+              })}
+            </div>
+          )}
+        </div>
+        {stickyDay && (
+          <DaySeparator
+            date={stickyDay}
+            className="absolute top-2 inset-x-0 pointer-events-none"
+          />
+        )}
+        {isLoadingOlder && (
+          <div className="absolute top-10 left-1/2 -translate-x-1/2 rounded-full bg-muted px-3 py-1 text-xs text-muted-foreground shadow">
+            {t('common.loading')}
           </div>
         )}
-      </ScrollArea>
+      </div>
+
+      {/* Reply Bar */}
+      {replyingTo && (
+        <div className="px-4 py-2 border-t bg-muted/20 flex-shrink-0">
+          <div className="flex items-center gap-2 p-2 bg-background rounded-lg border border-border">
+            <Reply className="h-4 w-4 text-primary flex-shrink-0" />
+            <ReplyQuote
+              reply={replyingTo}
+              isOwn={replyingTo.sender_id === currentUser?.id}
+              onClick={() => void jumpToMessage(replyingTo.id)}
+              className="flex-1 bg-transparent text-primary"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => changeReplyingTo(null)}
+              className="flex-shrink-0"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Link Preview */}
+      {composerLinkUrl && (
+        <div className="px-4 py-2 border-t bg-muted/20 flex-shrink-0">
+          <LinkPreviewCard
+            url={composerLinkUrl}
+            onRemove={() => setRemovedPreviewUrl(composerLinkUrl)}
+            className="bg-background text-foreground border-primary"
+          />
+        </div>
+      )}
+
+      {/* Editing Bar */}
+      {editingMessage && (
+        <div className="px-4 py-2 border-t bg-muted/20 flex-shrink-0">
+          <div className="flex items-center gap-2 p-2 bg-background rounded-lg border border-border">
+            <Pencil className="h-4 w-4 text-primary flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-primary">{t('chat.editingMessage')}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {toPlainText(editingMessage.content)}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={cancelEditing}
+              className="flex-shrink-0"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
 
       {/* File Preview */}
       {selectedFile && (
@@ -412,7 +1359,11 @@ export function ChatWindow({ userId, user, onMessageSent }: ChatWindowProps) {
               />
             ) : (
               <div className="w-16 h-16 bg-muted rounded flex items-center justify-center">
-                <Video className="h-6 w-6 text-muted-foreground" />
+                {selectedFile.type.startsWith('video/') ? (
+                  <Video className="h-6 w-6 text-muted-foreground" />
+                ) : (
+                  <FileText className="h-6 w-6 text-muted-foreground" />
+                )}
               </div>
             )}
             <div className="flex-1 min-w-0">
@@ -435,48 +1386,129 @@ export function ChatWindow({ userId, user, onMessageSent }: ChatWindowProps) {
         </div>
       )}
 
-      {/* Message Input */}
-      <div className="p-4 border-t bg-muted/30 flex-shrink-0">
-        <div className="flex items-center gap-2">
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept="image/jpeg,image/png,image/gif,image/webp,video/mp4,video/webm"
-            onChange={handleFileSelect}
-            className="hidden"
-          />
-          <Button
-            variant="ghost"
-            size="icon"
-            className="flex-shrink-0"
-            onClick={() => fileInputRef.current?.click()}
-            disabled={isSending || isUploading}
-          >
-            <Paperclip className="h-5 w-5" />
-          </Button>
-          <Input
-            type="text"
-            placeholder={t('chat.typeMessage')}
-            value={messageText}
-            onChange={(e) => setMessageText(e.target.value)}
-            onKeyPress={handleKeyPress}
-            disabled={isSending || isUploading}
-            className="flex-1 bg-background border-border"
-          />
-          <Button
-            onClick={sendMessage}
-            disabled={(!messageText.trim() && !selectedFile) || isSending || isUploading}
-            size="icon"
-            className="flex-shrink-0"
-          >
-            {isUploading ? (
-              <div className="h-4 w-4 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
-            ) : (
+      {/* Selection Bar */}
+      {selectedMessageIds ? (
+        <div className="p-4 border-t bg-muted/30 flex-shrink-0">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setSelectedMessageIds(null)}
+              className="flex-shrink-0"
+              aria-label={t('common.cancel')}
+            >
+              <X className="h-5 w-5" />
+            </Button>
+            <p className="flex-1 text-sm font-medium text-foreground">
+              {t('chat.selectedCount', { count: selectedMessageIds.size })}
+            </p>
+            <Button onClick={forwardSelected} disabled={selectedMessageIds.size === 0}>
+              <Forward className="h-4 w-4 mr-2" />
+              {t('chat.forward')}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        // Message Input
+        <div className="relative p-4 border-t bg-muted/30 flex-shrink-0">
+          {mentionSuggestions.length > 0 && (
+            <MentionSuggestions
+              users={mentionSuggestions}
+              activeIndex={Math.min(activeSuggestion, mentionSuggestions.length - 1)}
+              onPick={pickMention}
+              onHover={setActiveSuggestion}
+              className="absolute bottom-full left-16 right-16 z-10 mb-1"
+            />
+          )}
+          <div className="flex items-end gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ATTACHMENT_TYPES.join(',')}
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="flex-shrink-0"
+              disabled={!!editingMessage}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Paperclip className="h-5 w-5" />
+            </Button>
+            <Textarea
+              ref={messageInputRef}
+              rows={1}
+              placeholder={t('chat.typeMessage')}
+              title={`${t(sendShortcut === 'enter' ? 'chat.sendHintEnter' : 'chat.sendHintCtrlEnter')}\n${t('chat.formattingHint')}`}
+              value={messageText}
+              onChange={(e) => {
+                changeMessageText(e.target.value)
+                updateMentionQuery(e.target)
+                if (e.target.value) {
+                  notifyTyping()
+                } else {
+                  stopTyping()
+                }
+              }}
+              onKeyDown={handleKeyDown}
+              onSelect={(e) => updateMentionQuery(e.currentTarget)}
+              onBlur={() => setMentionQuery(null)}
+              onPaste={handlePaste}
+              className="flex-1 min-h-9 resize-none bg-background border-border"
+            />
+            <Button
+              onClick={sendMessage}
+              disabled={!messageText.trim() && !selectedFile && !editingMessage?.media_url}
+              size="icon"
+              className="flex-shrink-0"
+            >
               <Send className="h-5 w-5" />
-            )}
-          </Button>
+            </Button>
+          </div>
         </div>
-      </div>
+      )}
+
+      {largePaste && (
+        <LargePasteDialog
+          length={largePaste.text.length}
+          onSendAsFile={sendPasteAsFile}
+          onPasteAsText={pasteAsText}
+          onClose={() => {
+            setLargePaste(null)
+            messageInputRef.current?.focus()
+          }}
+        />
+      )}
+
+      {profileMention && (
+        <UserProfileDialog
+          key={profileMention.user_id}
+          userId={profileMention.user_id}
+          user={
+            profileMention.user ??
+            (profileMention.user_id === user.id ? user : undefined)
+          }
+          onSendMessage={
+            onOpenChat && profileMention.user_id !== currentUser?.id
+              ? (mentionedId) => {
+                  setProfileMention(null)
+                  onOpenChat(mentionedId)
+                }
+              : undefined
+          }
+          onClose={() => setProfileMention(null)}
+        />
+      )}
+
+      {forwardingMessages && (
+        <ForwardDialog
+          messageCount={forwardingMessages.length}
+          onForward={forwardMessages}
+          onClose={() => setForwardingMessages(null)}
+        />
+      )}
 
       {/* Media Modal */}
       <Dialog open={mediaModalOpen} onOpenChange={setMediaModalOpen}>
@@ -510,7 +1542,7 @@ export function ChatWindow({ userId, user, onMessageSent }: ChatWindowProps) {
                   className="max-w-full max-h-[95vh] w-auto h-auto"
                   onClick={(e) => e.stopPropagation()}
                   onError={(e) => {
-                    console.error('Video load error:', e)
+                    log.warn('Failed to load video', e)
                   }}
                 >
                   {t('chat.videoNotSupported')}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { WifiOff, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useConnectionState } from '@/hooks/useConnectionState'
+import { realtimeClient } from '@/services/realtimeClient'
+
+// "Reconnecting in N s". Rendered with the retry time as its key, so each retry
+// starts counting from the current time rather than from the last tick.
+function ReconnectCountdown({ retryAt }: { retryAt: number }) {
+  const { t } = useTranslation()
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  return (
+    <>
+      {t('connection.reconnectingIn', {
+        seconds: Math.max(0, Math.ceil((retryAt - now) / 1000)),
+      })}
+    </>
+  )
+}
+
+// Shows the realtime connection state above the chat whenever it isn't online
+export function ConnectionBanner() {
+  const { t } = useTranslation()
+  const state = useConnectionState()
+
+  if (state.status === 'idle' || state.status === 'online') {
+    return null
+  }
+
+  let text: React.ReactNode
+  switch (state.status) {
+    case 'connecting':
+      text = t('connection.connecting')
+      break
+    case 'reconnecting':
+      text = <ReconnectCountdown key={state.retryAt} retryAt={state.retryAt} />
+      break
+    case 'offline':
+      text = t('connection.offline')
+      break
+    case 'auth_failed':
+      text = t('connection.authFailed')
+      break
+  }
+
+  const isError = state.status === 'offline' || state.status === 'auth_failed'
+
+  return (
+    <div
+      role="status"
+      className={`flex items-center justify-center gap-3 px-4 py-2 text-sm border-b flex-shrink-0 ${
+        isError ? 'bg-destructive/10 text-destructive' : 'bg-muted text-muted-foreground'
+      }`}
+    >
+      {state.status === 'connecting' ? (
+        <RefreshCw className="h-4 w-4 animate-spin" />
+      ) : (
+        <WifiOff className="h-4 w-4" />
+      )}
+      <span>{text}</span>
+      {state.status !== 'connecting' && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7"
+          onClick={() => realtimeClient.reconnectNow()}
+        >
+          {t('connection.reconnectNow')}
+        </Button>
+      )}
+    </div>
+  )
+}
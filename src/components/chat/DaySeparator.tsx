@@ -0,0 +1,28 @@
+import { isToday, isYesterday } from 'date-fns'
+import { useTranslation } from 'react-i18next'
+import { formatDayDate } from '@/lib/dateLocale'
+import { cn } from '@/lib/utils'
+
+interface DaySeparatorProps {
+  date: Date
+  className?: string
+}
+
+// "Today", "Yesterday" or a localized date, above the first message of each day
+export function DaySeparator({ date, className }: DaySeparatorProps) {
+  const { t, i18n } = useTranslation()
+
+  const label = isToday(date)
+    ? t('chat.today')
+    : isYesterday(date)
+    ? t('chat.yesterday')
+    : formatDayDate(date, i18n.language)
+
+  return (
+    <div className={cn('flex justify-center', className)}>
+      <span className="rounded-full bg-muted/90 px-3 py-1 text-xs font-medium text-muted-foreground shadow-sm backdrop-blur">
+        {label}
+      </span>
+    </div>
+  )
+}
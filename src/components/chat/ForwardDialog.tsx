@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react'
+import { Check, Search } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { chatService } from '@/services/chatService'
+import { useAuth } from '@/hooks/useAuth'
+import { useDebouncedValue } from '@/hooks/useDebouncedValue'
+import { createLogger } from '@/lib/logger'
+import { cn } from '@/lib/utils'
+import { UserAvatar } from './UserAvatar'
+import type { User } from '@/types'
+
+const log = createLogger('forward')
+
+const SEARCH_DELAY = 300
+
+interface ForwardDialogProps {
+  messageCount: number
+  onForward: (targets: User[]) => void
+  onClose: () => void
+}
+
+// Picks one or more conversations to forward to: the chat list, or user search
+// results while a query is typed, like the sidebar. Mounted only while open.
+export function ForwardDialog({ messageCount, onForward, onClose }: ForwardDialogProps) {
+  const { t } = useTranslation()
+  const { user: currentUser } = useAuth()
+  const [query, setQuery] = useState('')
+  const [chats, setChats] = useState<User[]>([])
+  const [searchResults, setSearchResults] = useState<User[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [selected, setSelected] = useState<Map<string, User>>(new Map())
+  const debouncedQuery = useDebouncedValue(query.trim(), SEARCH_DELAY)
+
+  useEffect(() => {
+    let cancelled = false
+    chatService
+      .getChatList()
+      .then((chatList) => {
+        if (!cancelled) setChats(chatList.map((chat) => chat.user))
+      })
+      .catch((error) => {
+        log.error('Failed to load chat list', error)
+        toast.error(t('common.error'))
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [t])
+
+  useEffect(() => {
+    if (!debouncedQuery) return
+
+    let cancelled = false
+    chatService
+      .searchUsers(debouncedQuery)
+      .then((users) => {
+        if (!cancelled) setSearchResults(users)
+      })
+      .catch((error) => {
+        log.error('Failed to search users', error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [debouncedQuery])
+
+  const users = (query.trim() ? searchResults : chats).filter(
+    (user) => user.id !== currentUser?.id
+  )
+
+  const toggle = (user: User) => {
+    setSelected((prev) => {
+      const next = new Map(prev)
+      if (next.has(user.id)) {
+        next.delete(user.id)
+      } else {
+        next.set(user.id, user)
+      }
+      return next
+    })
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('chat.forwardTo')}</DialogTitle>
+          <DialogDescription>{t('chat.forwardCount', { count: messageCount })}</DialogDescription>
+        </DialogHeader>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            type="text"
+            placeholder={t('common.search')}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-10 bg-background border-border"
+            autoFocus
+          />
+        </div>
+        <ScrollArea className="h-72 -mx-2">
+          {isLoading ? (
+            <div className="p-4 text-center text-muted-foreground">{t('common.loading')}</div>
+          ) : users.length === 0 ? (
+            <div className="p-4 text-center text-muted-foreground">
+              {query.trim() ? t('chat.noResults') : t('chat.noContacts')}
+            </div>
+          ) : (
+            <div className="px-2">
+              {users.map((user) => {
+                const isSelected = selected.has(user.id)
+                return (
+                  <button
+                    key={user.id}
+                    type="button"
+                    role="checkbox"
+                    aria-checked={isSelected}
+                    onClick={() => toggle(user)}
+                    className={cn(
+                      'w-full flex items-center gap-3 rounded-md p-2 text-left transition-colors hover:bg-muted/50',
+                      isSelected && 'bg-muted'
+                    )}
+                  >
+                    <UserAvatar user={user} className="w-10 h-10" />
+                    <span className="flex-1 min-w-0 truncate text-sm font-medium text-foreground">
+                      {user.username || user.email}
+                    </span>
+                    <span
+                      className={cn(
+                        'flex h-5 w-5 flex-shrink-0 items-center justify-center rounded-full border',
+                        isSelected ? 'border-primary bg-primary text-primary-foreground' : 'border-border'
+                      )}
+                    >
+                      {isSelected && <Check className="h-3 w-3" />}
+                    </span>
+                  </button>
+                )
+              })}
+            </div>
+          )}
+        </ScrollArea>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            disabled={selected.size === 0}
+            onClick={() => onForward([...selected.values()])}
+          >
+            {selected.size > 0
+              ? t('chat.forwardToCount', { count: selected.size })
+              : t('chat.forward')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
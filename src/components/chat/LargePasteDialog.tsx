@@ -0,0 +1,43 @@
+import { FileText } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface LargePasteDialogProps {
+  length: number
+  onSendAsFile: () => void
+  onPasteAsText: () => void
+  onClose: () => void
+}
+
+// Asks what to do with a long pasted text. Mounted only while open.
+export function LargePasteDialog({ length, onSendAsFile, onPasteAsText, onClose }: LargePasteDialogProps) {
+  const { t } = useTranslation()
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('chat.largePasteTitle')}</DialogTitle>
+          <DialogDescription>{t('chat.largePasteDescription', { count: length })}</DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={onPasteAsText}>
+            {t('chat.pasteAsText')}
+          </Button>
+          <Button onClick={onSendAsFile} autoFocus>
+            <FileText className="h-4 w-4 mr-2" />
+            {t('chat.sendAsFile')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,77 @@
+import { X } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { useLinkPreview } from '@/hooks/useLinkPreview'
+import { getSafeHref } from '@/lib/richText'
+import { cn } from '@/lib/utils'
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://127.0.0.1:8000'
+
+interface LinkPreviewCardProps {
+  url: string
+  // Shown in the composer so the sender can drop the preview before sending
+  onRemove?: () => void
+  className?: string
+}
+
+// Title, description, site name and thumbnail of a linked page, once the unfurl
+// endpoint has returned them; renders nothing while loading or without metadata
+export function LinkPreviewCard({ url, onRemove, className }: LinkPreviewCardProps) {
+  const { t } = useTranslation()
+  const preview = useLinkPreview(url)
+
+  if (!preview) return null
+
+  // Only thumbnails proxied by the backend are shown: loading an absolute image URL would
+  // reveal the reader's IP to the linked site's host
+  const imageUrl =
+    preview.image_url?.startsWith('/') && !preview.image_url.startsWith('//')
+      ? `${API_BASE_URL}${preview.image_url}`
+      : null
+
+  return (
+    <div
+      className={cn(
+        'relative flex gap-2 rounded-md border-l-2 border-current bg-black/10 p-2 text-left',
+        className
+      )}
+    >
+      {imageUrl && (
+        <img
+          src={imageUrl}
+          alt=""
+          loading="lazy"
+          className="h-14 w-14 flex-shrink-0 rounded object-cover"
+          onError={(e) => {
+            const target = e.target as HTMLImageElement
+            target.style.display = 'none'
+          }}
+        />
+      )}
+      <a
+        href={getSafeHref(preview.url) ?? url}
+        target="_blank"
+        rel="noopener noreferrer nofollow"
+        className="min-w-0 flex-1"
+      >
+        {preview.site_name && (
+          <p className="truncate text-xs font-semibold opacity-80">{preview.site_name}</p>
+        )}
+        <p className="truncate text-sm font-medium">{preview.title}</p>
+        {preview.description && (
+          <p className="line-clamp-2 text-xs opacity-80">{preview.description}</p>
+        )}
+      </a>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="absolute right-1 top-1 rounded p-0.5 opacity-70 hover:bg-black/10 hover:opacity-100"
+          aria-label={t('chat.removeLinkPreview')}
+          title={t('chat.removeLinkPreview')}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+import { useTranslation } from 'react-i18next'
+import { cn } from '@/lib/utils'
+import { UserAvatar } from './UserAvatar'
+import type { User } from '@/types'
+
+interface MentionSuggestionsProps {
+  users: User[]
+  activeIndex: number
+  onPick: (user: User) => void
+  onHover: (index: number) => void
+  className?: string
+}
+
+// Autocomplete list for an @mention typed in the composer. Picking keeps the focus
+// in the composer, which also handles the arrow keys, Enter and Tab.
+export function MentionSuggestions({ users, activeIndex, onPick, onHover, className }: MentionSuggestionsProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div
+      role="listbox"
+      aria-label={t('chat.mentionSuggestions')}
+      className={cn('rounded-md border border-border bg-popover py-1 shadow-md', className)}
+    >
+      {users.map((user, index) => {
+        const fullName = [user.first_name, user.last_name].filter(Boolean).join(' ')
+        return (
+          <button
+            key={user.id}
+            type="button"
+            role="option"
+            aria-selected={index === activeIndex}
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => onHover(index)}
+            onClick={() => onPick(user)}
+            className={cn(
+              'flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm',
+              index === activeIndex && 'bg-muted'
+            )}
+          >
+            <UserAvatar user={user} className="w-6 h-6 text-xs" showPresence={false} />
+            <span className="font-medium text-foreground">@{user.username}</span>
+            {fullName && <span className="truncate text-muted-foreground">{fullName}</span>}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
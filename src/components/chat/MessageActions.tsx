@@ -0,0 +1,144 @@
+import { useState } from 'react'
+import { CheckSquare, ChevronDown, Forward, Pencil, Pin, PinOff, Reply, Trash2 } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { cn } from '@/lib/utils'
+import type { Message } from '@/types'
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏']
+
+interface MessageActionsProps {
+  message: Message
+  isOwn: boolean
+  // Pending bubbles have no server id to act on yet
+  disabled?: boolean
+  onReact: (message: Message, emoji: string) => void
+  onReply: (message: Message) => void
+  onEdit: (message: Message) => void
+  onDelete: (message: Message, forEveryone: boolean) => void
+  onForward: (message: Message) => void
+  // Starts multi-select with this message selected
+  onSelect: (message: Message) => void
+  onTogglePin: (message: Message) => void
+  children: React.ReactNode
+}
+
+// Wraps a bubble with its action menu, opened from the hover button or a right click
+export function MessageActions({
+  message,
+  isOwn,
+  disabled,
+  onReact,
+  onReply,
+  onEdit,
+  onDelete,
+  onForward,
+  onSelect,
+  onTogglePin,
+  children,
+}: MessageActionsProps) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const isDeleted = !!message.deleted_at
+
+  if (disabled) {
+    return <div className="max-w-[70%]">{children}</div>
+  }
+
+  return (
+    <div
+      className="group relative max-w-[70%]"
+      onContextMenu={(e) => {
+        e.preventDefault()
+        setOpen(true)
+      }}
+    >
+      {children}
+      <DropdownMenu open={open} onOpenChange={setOpen}>
+        <DropdownMenuTrigger asChild>
+          <button
+            type="button"
+            aria-label={t('chat.messageActions')}
+            className={cn(
+              'absolute top-1 right-1 rounded-full p-0.5 bg-background/70 text-foreground opacity-0 transition-opacity group-hover:opacity-100 focus-visible:opacity-100',
+              open && 'opacity-100'
+            )}
+          >
+            <ChevronDown className="h-3.5 w-3.5" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align={isOwn ? 'end' : 'start'} className="w-56">
+          {!isDeleted && (
+            <>
+              <div className="flex justify-between">
+                {QUICK_REACTIONS.map((emoji) => (
+                  <DropdownMenuItem
+                    key={emoji}
+                    onClick={() => onReact(message, emoji)}
+                    className="cursor-pointer justify-center px-1.5 text-lg"
+                  >
+                    {emoji}
+                  </DropdownMenuItem>
+                ))}
+              </div>
+              <DropdownMenuSeparator />
+            </>
+          )}
+          {!isDeleted && (
+            <DropdownMenuItem onClick={() => onReply(message)} className="cursor-pointer">
+              <Reply className="mr-2 h-4 w-4" />
+              <span>{t('chat.reply')}</span>
+            </DropdownMenuItem>
+          )}
+          {!isDeleted && (
+            <DropdownMenuItem onClick={() => onForward(message)} className="cursor-pointer">
+              <Forward className="mr-2 h-4 w-4" />
+              <span>{t('chat.forward')}</span>
+            </DropdownMenuItem>
+          )}
+          {!isDeleted && (
+            <DropdownMenuItem onClick={() => onSelect(message)} className="cursor-pointer">
+              <CheckSquare className="mr-2 h-4 w-4" />
+              <span>{t('chat.select')}</span>
+            </DropdownMenuItem>
+          )}
+          {!isDeleted && (
+            <DropdownMenuItem onClick={() => onTogglePin(message)} className="cursor-pointer">
+              {message.pinned_at ? (
+                <PinOff className="mr-2 h-4 w-4" />
+              ) : (
+                <Pin className="mr-2 h-4 w-4" />
+              )}
+              <span>{message.pinned_at ? t('chat.unpin') : t('chat.pin')}</span>
+            </DropdownMenuItem>
+          )}
+          {isOwn && !isDeleted && (
+            <DropdownMenuItem onClick={() => onEdit(message)} className="cursor-pointer">
+              <Pencil className="mr-2 h-4 w-4" />
+              <span>{t('common.edit')}</span>
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => onDelete(message, false)} className="cursor-pointer">
+            <Trash2 className="mr-2 h-4 w-4" />
+            <span>{t('chat.deleteForMe')}</span>
+          </DropdownMenuItem>
+          {isOwn && !isDeleted && (
+            <DropdownMenuItem
+              onClick={() => onDelete(message, true)}
+              className="cursor-pointer text-destructive"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              <span>{t('chat.deleteForEveryone')}</span>
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
@@ -0,0 +1,286 @@
+import { memo, useMemo } from 'react'
+import { Check, FileText, Pin, RotateCw } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { outbox } from '@/services/outbox'
+import { getFirstLinkUrl } from '@/lib/richText'
+import { cn } from '@/lib/utils'
+import { LinkPreviewCard } from './LinkPreviewCard'
+import { MessageActions } from './MessageActions'
+import { MessageReactions } from './MessageReactions'
+import { MessageStatus } from './MessageStatus'
+import { ReplyQuote } from './ReplyQuote'
+import { RichText } from './RichText'
+import { UserAvatar } from './UserAvatar'
+import type { Message, MessageMention, OutboxEntry, User } from '@/types'
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://127.0.0.1:8000'
+
+interface MessageBubbleProps {
+  message: Message
+  isOwn: boolean
+  currentUserId?: string
+  // The other side of the conversation, for naming who reacted
+  peer?: User
+  // Set while the message is still waiting in the outbox
+  outboxStatus?: OutboxEntry['status']
+  isHighlighted: boolean
+  // Active in-chat search query, whose terms are marked in the text
+  searchQuery?: string
+  // Grouped bubbles show the sender's name on the first and the avatar on the last one
+  showSenderName: boolean
+  showAvatar: boolean
+  onReact: (message: Message, emoji: string) => void
+  onReply: (message: Message) => void
+  onEdit: (message: Message) => void
+  onDelete: (message: Message, forEveryone: boolean) => void
+  onForward: (message: Message) => void
+  onSelect: (message: Message) => void
+  onTogglePin: (message: Message) => void
+  // Set in selection mode, where clicking the row toggles it instead of its content
+  onToggleSelected?: (message: Message) => void
+  isSelected?: boolean
+  onJumpToMessage: (messageId: string) => void
+  onOpenMedia: (media: { url: string; type: string }) => void
+  onOpenProfile: (mention: MessageMention) => void
+}
+
+// Memoized so typing in the composer or a new message doesn't re-render the whole
+// history; callbacks passed in must be stable
+export const MessageBubble = memo(function MessageBubble({
+  message,
+  isOwn,
+  currentUserId,
+  peer,
+  outboxStatus,
+  isHighlighted,
+  searchQuery,
+  showSenderName,
+  showAvatar,
+  onReact,
+  onReply,
+  onEdit,
+  onDelete,
+  onForward,
+  onSelect,
+  onTogglePin,
+  onToggleSelected,
+  isSelected,
+  onJumpToMessage,
+  onOpenMedia,
+  onOpenProfile,
+}: MessageBubbleProps) {
+  const { t } = useTranslation()
+
+  const getUserName = (id: string) => {
+    if (id === currentUserId) return t('chat.you')
+    if (id === peer?.id) return peer.username || peer.email
+    return id
+  }
+
+  const sender = message.sender ?? (message.sender_id === peer?.id ? peer : undefined)
+  const forwardedFrom = message.forwarded_from
+  const forwardedSender =
+    forwardedFrom?.sender ?? (forwardedFrom?.sender_id === peer?.id ? peer : undefined)
+  const forwardedFromName =
+    forwardedFrom?.sender_id === currentUserId
+      ? t('chat.you')
+      : forwardedSender?.username || forwardedSender?.email
+  const isSelectable = !!onToggleSelected && !message.id.startsWith('temp-') && !message.deleted_at
+
+  const linkUrl = useMemo(
+    () =>
+      message.deleted_at || message.link_preview_disabled
+        ? undefined
+        : getFirstLinkUrl(message.content),
+    [message.content, message.deleted_at, message.link_preview_disabled]
+  )
+
+  return (
+    <div
+      className={cn(
+        'flex items-end gap-2',
+        isOwn ? 'justify-end' : 'justify-start',
+        isSelectable && 'cursor-pointer',
+        isSelected && 'rounded-lg bg-primary/10'
+      )}
+      // Capture phase so links, media and reactions don't react while selecting
+      onClickCapture={
+        isSelectable
+          ? (e) => {
+              e.preventDefault()
+              e.stopPropagation()
+              onToggleSelected(message)
+            }
+          : undefined
+      }
+    >
+      {onToggleSelected && (
+        <span
+          role="checkbox"
+          aria-checked={!!isSelected}
+          aria-label={t('chat.select')}
+          className={cn(
+            'mb-2 flex h-5 w-5 flex-shrink-0 items-center justify-center self-center rounded-full border',
+            isSelected ? 'border-primary bg-primary text-primary-foreground' : 'border-border',
+            !isSelectable && 'invisible'
+          )}
+        >
+          {isSelected && <Check className="h-3 w-3" />}
+        </span>
+      )}
+      {isOwn && onToggleSelected && <div className="flex-1" />}
+      {!isOwn &&
+        (showAvatar && sender ? (
+          <UserAvatar user={sender} className="w-8 h-8 text-sm" showPresence={false} />
+        ) : (
+          <div className="w-8 flex-shrink-0" />
+        ))}
+      <MessageActions
+        message={message}
+        isOwn={isOwn}
+        disabled={message.id.startsWith('temp-') || !!onToggleSelected}
+        onReact={onReact}
+        onReply={onReply}
+        onEdit={onEdit}
+        onDelete={onDelete}
+        onForward={onForward}
+        onSelect={onSelect}
+        onTogglePin={onTogglePin}
+      >
+        <div
+          className={cn(
+            'rounded-lg px-4 py-2 transition-shadow',
+            isOwn ? 'bg-primary text-primary-foreground' : 'bg-muted text-foreground',
+            isHighlighted && 'ring-2 ring-primary ring-offset-2 ring-offset-background'
+          )}
+        >
+          {!isOwn && showSenderName && sender && (
+            <p className="text-xs font-semibold mb-1 opacity-80">
+              {sender.username || sender.email}
+            </p>
+          )}
+          {forwardedFrom && !message.deleted_at && (
+            <p className="text-xs italic mb-1 opacity-80 truncate">
+              {t('chat.forwardedFrom', { name: forwardedFromName || t('chat.unknownUser') })}
+            </p>
+          )}
+          {message.reply_to && !message.deleted_at && (
+            <ReplyQuote
+              reply={message.reply_to}
+              isOwn={message.reply_to.sender_id === currentUserId}
+              onClick={() => onJumpToMessage(message.reply_to!.id)}
+              className="mb-1"
+            />
+          )}
+          {/* Media display */}
+          {message.media_url && (
+            <div className="mb-2 rounded-lg overflow-hidden max-w-full">
+              {message.media_type?.startsWith('image/') ? (
+                <img
+                  src={`${API_BASE_URL}${message.media_url}`}
+                  alt={message.content || 'Image'}
+                  className="max-w-full h-auto rounded-lg cursor-pointer hover:opacity-90 transition-opacity"
+                  onClick={() =>
+                    onOpenMedia({
+                      url: `${API_BASE_URL}${message.media_url}`,
+                      type: message.media_type || 'image',
+                    })
+                  }
+                  onError={(e) => {
+                    // Fallback if image fails to load
+                    const target = e.target as HTMLImageElement
+                    target.style.display = 'none'
+                  }}
+                />
+              ) : message.media_type?.startsWith('video/') ? (
+                <div className="relative">
+                  <video
+                    src={`${API_BASE_URL}${message.media_url}`}
+                    controls
+                    className="max-w-full h-auto rounded-lg"
+                    style={{ maxHeight: '400px' }}
+                    onDoubleClick={() =>
+                      onOpenMedia({
+                        url: `${API_BASE_URL}${message.media_url}`,
+                        type: message.media_type || 'video',
+                      })
+                    }
+                  >
+                    {t('chat.videoNotSupported')}
+                  </video>
+                  <div className="absolute bottom-2 right-2 bg-black/50 text-white px-2 py-1 rounded text-xs opacity-0 hover:opacity-100 transition-opacity pointer-events-none">
+                    {t('chat.doubleClickForFullscreen')}
+                  </div>
+                </div>
+              ) : (
+                <a
+                  href={`${API_BASE_URL}${message.media_url}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 rounded-lg bg-black/10 px-3 py-2 text-sm hover:bg-black/15"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <FileText className="h-5 w-5 flex-shrink-0" />
+                  <span className="underline underline-offset-2">{t('chat.file')}</span>
+                </a>
+              )}
+            </div>
+          )}
+          {message.deleted_at ? (
+            <p className="text-sm italic opacity-70">{t('chat.messageDeleted')}</p>
+          ) : (
+            message.content && (
+              <RichText
+                content={message.content}
+                highlight={searchQuery}
+                mentions={message.mentions}
+                currentUserId={currentUserId}
+                onMentionClick={onOpenProfile}
+              />
+            )
+          )}
+          {linkUrl && <LinkPreviewCard url={linkUrl} className="mt-2" />}
+          <p className="text-xs mt-1 opacity-70 flex items-center justify-end gap-1">
+            {message.pinned_at && !message.deleted_at && (
+              <Pin className="h-3 w-3" aria-label={t('chat.pinnedMessage')} />
+            )}
+            {message.edited_at && !message.deleted_at && <span>{t('chat.edited')}</span>}
+            {new Date(message.created_at).toLocaleTimeString([], {
+              hour: '2-digit',
+              minute: '2-digit',
+            })}
+            {isOwn && <MessageStatus message={message} outboxStatus={outboxStatus} />}
+          </p>
+          {outboxStatus === 'failed' && message.client_id && (
+            <div className="flex justify-end gap-2 mt-1 text-xs">
+              <button
+                type="button"
+                className="inline-flex items-center gap-1 underline underline-offset-2"
+                onClick={() => outbox.retry(message.client_id!)}
+              >
+                <RotateCw className="h-3 w-3" />
+                {t('chat.retry')}
+              </button>
+              <button
+                type="button"
+                className="underline underline-offset-2 opacity-80"
+                onClick={() => outbox.discard(message.client_id!)}
+              >
+                {t('common.delete')}
+              </button>
+            </div>
+          )}
+        </div>
+        {message.reactions && !message.deleted_at && (
+          <MessageReactions
+            reactions={message.reactions}
+            currentUserId={currentUserId}
+            getUserName={getUserName}
+            onToggle={(emoji) => onReact(message, emoji)}
+            className={`mt-1 ${isOwn ? 'justify-end' : 'justify-start'}`}
+          />
+        )}
+      </MessageActions>
+    </div>
+  )
+})
@@ -0,0 +1,48 @@
+import { cn } from '@/lib/utils'
+import type { MessageReaction } from '@/types'
+
+interface MessageReactionsProps {
+  reactions: MessageReaction[]
+  currentUserId?: string
+  // Display name for the tooltip listing who reacted
+  getUserName: (userId: string) => string
+  onToggle: (emoji: string) => void
+  className?: string
+}
+
+// Reaction chips under a bubble; clicking a chip adds or removes our own reaction
+export function MessageReactions({
+  reactions,
+  currentUserId,
+  getUserName,
+  onToggle,
+  className,
+}: MessageReactionsProps) {
+  if (reactions.length === 0) return null
+
+  return (
+    <div className={cn('flex flex-wrap gap-1', className)}>
+      {reactions.map((reaction) => {
+        const isMine = !!currentUserId && reaction.user_ids.includes(currentUserId)
+        return (
+          <button
+            key={reaction.emoji}
+            type="button"
+            title={reaction.user_ids.map(getUserName).join(', ')}
+            aria-pressed={isMine}
+            onClick={() => onToggle(reaction.emoji)}
+            className={cn(
+              'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors',
+              isMine
+                ? 'border-primary bg-primary/15 text-foreground'
+                : 'border-border bg-background text-muted-foreground hover:bg-muted'
+            )}
+          >
+            <span>{reaction.emoji}</span>
+            <span>{reaction.user_ids.length}</span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
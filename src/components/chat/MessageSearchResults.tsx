@@ -0,0 +1,80 @@
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { formatDayDate } from '@/lib/dateLocale'
+import { groupMessagesByChat } from '@/lib/messages'
+import { getHighlightPattern, getSnippet } from '@/lib/richText'
+import { HighlightedText } from './RichText'
+import { UserAvatar } from './UserAvatar'
+import type { Message, User } from '@/types'
+
+interface MessageSearchResultsProps {
+  messages: Message[]
+  query: string
+  currentUserId: string
+  // Resolves the other side of a conversation; hits only carry the sender
+  getChatUser: (chatId: string) => User | undefined
+  onOpen: (chatId: string, messageId: string) => void
+}
+
+// Message hits from the sidebar search, grouped under the conversation they belong to
+export function MessageSearchResults({
+  messages,
+  query,
+  currentUserId,
+  getChatUser,
+  onOpen,
+}: MessageSearchResultsProps) {
+  const { t, i18n } = useTranslation()
+  const groups = useMemo(() => groupMessagesByChat(messages, currentUserId), [messages, currentUserId])
+  const pattern = useMemo(() => getHighlightPattern(query), [query])
+
+  return (
+    <div className="divide-y divide-border">
+      {groups.map(({ chatId, messages: hits }) => {
+        const chatUser =
+          getChatUser(chatId) ?? hits.find((hit) => hit.sender_id === chatId)?.sender
+        return (
+          <div key={chatId}>
+            <div className="flex items-center gap-2 px-4 pt-3 pb-1">
+              {chatUser && <UserAvatar user={chatUser} className="w-6 h-6 text-xs" showPresence={false} />}
+              <p className="text-xs font-semibold text-muted-foreground truncate">
+                {chatUser ? chatUser.username || chatUser.email : t('chat.unknownUser')}
+              </p>
+            </div>
+            {hits.map((hit) => {
+              const snippet = hit.content
+                ? getSnippet(hit.content, query)
+                : hit.media_type?.startsWith('image/')
+                ? t('chat.photo')
+                : hit.media_type?.startsWith('video/')
+                ? t('chat.video')
+                : hit.media_type
+                ? t('chat.file')
+                : ''
+              return (
+                <button
+                  key={hit.id}
+                  type="button"
+                  onClick={() => onOpen(chatId, hit.id)}
+                  className="w-full px-4 py-2 text-left hover:bg-muted/50 transition-colors"
+                >
+                  <div className="flex items-baseline justify-between gap-2">
+                    <p className="text-sm text-foreground line-clamp-2 break-words">
+                      {hit.sender_id === currentUserId && (
+                        <span className="text-muted-foreground">{t('chat.you')}: </span>
+                      )}
+                      <HighlightedText text={snippet} pattern={pattern} />
+                    </p>
+                    <span className="text-xs text-muted-foreground flex-shrink-0">
+                      {formatDayDate(new Date(hit.created_at), i18n.language)}
+                    </span>
+                  </div>
+                </button>
+              )
+            })}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+import { AlertCircle, Check, CheckCheck, Clock } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { cn } from '@/lib/utils'
+import type { Message, OutboxEntry } from '@/types'
+
+interface MessageStatusProps {
+  message: Message
+  // Set while the message is still waiting in the outbox
+  outboxStatus?: OutboxEntry['status']
+  className?: string
+}
+
+// Tick marks shown on the sender's own messages
+export function MessageStatus({ message, outboxStatus, className }: MessageStatusProps) {
+  const { t } = useTranslation()
+
+  if (outboxStatus === 'failed') {
+    return (
+      <span title={t('chat.statusFailed')} className={cn('inline-flex text-red-400', className)}>
+        <AlertCircle className="h-3.5 w-3.5" />
+      </span>
+    )
+  }
+
+  if (message.id.startsWith('temp-')) {
+    return (
+      <span title={t('chat.statusSending')} className={cn('inline-flex', className)}>
+        <Clock className="h-3.5 w-3.5" />
+      </span>
+    )
+  }
+
+  if (message.is_read) {
+    return (
+      <span title={t('chat.statusRead')} className={cn('inline-flex text-sky-400', className)}>
+        <CheckCheck className="h-3.5 w-3.5" />
+      </span>
+    )
+  }
+
+  if (message.delivered_at) {
+    return (
+      <span title={t('chat.statusDelivered')} className={cn('inline-flex', className)}>
+        <CheckCheck className="h-3.5 w-3.5" />
+      </span>
+    )
+  }
+
+  return (
+    <span title={t('chat.statusSent')} className={cn('inline-flex', className)}>
+      <Check className="h-3.5 w-3.5" />
+    </span>
+  )
+}
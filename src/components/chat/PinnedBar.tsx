@@ -0,0 +1,88 @@
+import { useState } from 'react'
+import { Pin, X } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { toPlainText } from '@/lib/richText'
+import { cn } from '@/lib/utils'
+import type { Message } from '@/types'
+
+// Segments in the position indicator; longer pin lists share the last one
+const MAX_INDICATOR_SEGMENTS = 4
+
+interface PinnedBarProps {
+  // Oldest first
+  pinnedMessages: Message[]
+  onJump: (message: Message) => void
+  onUnpin: (message: Message) => void
+}
+
+// Shows one pin at a time, starting with the newest. Clicking jumps to it and moves
+// on to the next older pin, wrapping around after the oldest.
+export function PinnedBar({ pinnedMessages, onJump, onUnpin }: PinnedBarProps) {
+  const { t } = useTranslation()
+  // Counted from the newest pin
+  const [position, setPosition] = useState(0)
+
+  if (pinnedMessages.length === 0) return null
+
+  const count = pinnedMessages.length
+  // Pins may have been removed since the position was set
+  const current = Math.min(position, count - 1)
+  const message = pinnedMessages[count - 1 - current]
+  const text = message.deleted_at
+    ? t('chat.messageDeleted')
+    : toPlainText(message.content) ||
+      (message.media_type?.startsWith('image/')
+        ? t('chat.photo')
+        : message.media_type?.startsWith('video/')
+        ? t('chat.video')
+        : '')
+  const segments = Math.min(count, MAX_INDICATOR_SEGMENTS)
+  const activeSegment = Math.min(count - 1 - current, segments - 1)
+
+  return (
+    <div className="px-4 py-2 border-b bg-muted/20 flex-shrink-0">
+      <div className="flex items-center gap-2">
+        {count > 1 && (
+          <div className="flex flex-col gap-0.5 self-stretch" aria-hidden>
+            {Array.from({ length: segments }, (_, index) => (
+              <span
+                key={index}
+                className={cn(
+                  'w-0.5 flex-1 rounded-full',
+                  index === activeSegment ? 'bg-primary' : 'bg-primary/30'
+                )}
+              />
+            ))}
+          </div>
+        )}
+        <button
+          type="button"
+          onClick={() => {
+            onJump(message)
+            setPosition((current + 1) % count)
+          }}
+          className="flex-1 min-w-0 text-left"
+        >
+          <p className="text-xs font-semibold text-primary">
+            {count > 1
+              ? t('chat.pinnedMessageNumber', { number: count - current })
+              : t('chat.pinnedMessage')}
+          </p>
+          <p className="text-sm text-foreground truncate">{text}</p>
+        </button>
+        <Pin className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onUnpin(message)}
+          className="flex-shrink-0"
+          aria-label={t('chat.unpin')}
+          title={t('chat.unpin')}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import { formatDistanceToNowStrict } from 'date-fns'
+import { useTranslation } from 'react-i18next'
+import { usePresence } from '@/hooks/usePresence'
+import { useNow } from '@/hooks/useNow'
+import { getDateLocale } from '@/lib/dateLocale'
+import { cn } from '@/lib/utils'
+import type { User } from '@/types'
+
+interface PresenceStatusProps {
+  user: User
+  className?: string
+}
+
+// "Online" or a localized "last seen 5 minutes ago" that keeps ticking
+export function PresenceStatus({ user, className }: PresenceStatusProps) {
+  const { t, i18n } = useTranslation()
+  const { isOnline, lastSeen } = usePresence(user)
+  const now = useNow()
+
+  if (isOnline) {
+    return <p className={cn('text-sm text-muted-foreground', className)}>{t('chat.online')}</p>
+  }
+  if (!lastSeen) {
+    return null
+  }
+
+  const lastSeenDate = new Date(lastSeen)
+  const isJustNow = now - lastSeenDate.getTime() < 60000
+
+  return (
+    <p className={cn('text-sm text-muted-foreground', className)} title={lastSeenDate.toLocaleString()}>
+      {isJustNow
+        ? t('chat.lastSeenJustNow')
+        : t('chat.lastSeenAgo', {
+            time: formatDistanceToNowStrict(lastSeenDate, {
+              addSuffix: true,
+              locale: getDateLocale(i18n.language),
+            }),
+          })}
+    </p>
+  )
+}
@@ -0,0 +1,44 @@
+import { useTranslation } from 'react-i18next'
+import { toPlainText } from '@/lib/richText'
+import { cn } from '@/lib/utils'
+import type { MessageReplyPreview } from '@/types'
+
+interface ReplyQuoteProps {
+  reply: MessageReplyPreview
+  // Shown as "You" instead of a username
+  isOwn: boolean
+  onClick?: () => void
+  className?: string
+}
+
+// Quoted original message, inside a reply bubble and above the composer
+export function ReplyQuote({ reply, isOwn, onClick, className }: ReplyQuoteProps) {
+  const { t } = useTranslation()
+
+  const author = isOwn ? t('chat.you') : reply.sender?.username || reply.sender?.email
+  const text = reply.deleted_at
+    ? t('chat.messageDeleted')
+    : toPlainText(reply.content) ||
+      (reply.media_type?.startsWith('image/')
+        ? t('chat.photo')
+        : reply.media_type?.startsWith('video/')
+        ? t('chat.video')
+        : reply.media_type
+        ? t('chat.file')
+        : '')
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={!onClick}
+      className={cn(
+        'block w-full min-w-0 text-left border-l-2 border-current rounded-sm bg-black/10 px-2 py-1 disabled:cursor-default',
+        className
+      )}
+    >
+      {author && <p className="text-xs font-semibold truncate">{author}</p>}
+      <p className={cn('text-xs truncate opacity-80', reply.deleted_at && 'italic')}>{text}</p>
+    </button>
+  )
+}
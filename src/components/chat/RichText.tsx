@@ -0,0 +1,205 @@
+import { useMemo } from 'react'
+import { Copy } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { getMentionLookup, type MentionLookup } from '@/lib/mentions'
+import { getHighlightPattern, parseRichText, type RichInline } from '@/lib/richText'
+import { cn } from '@/lib/utils'
+import type { MessageMention } from '@/types'
+
+interface RichTextProps {
+  content: string
+  // Search terms to mark in the text
+  highlight?: string
+  mentions?: MessageMention[]
+  // Mentions of this user stand out
+  currentUserId?: string
+  onMentionClick?: (mention: MessageMention) => void
+  className?: string
+}
+
+// How mentions in the text are found and what they do, passed down the inline tree
+interface MentionOptions {
+  lookup: MentionLookup
+  currentUserId?: string
+  onClick?: (mention: MessageMention) => void
+}
+
+// Text with the parts matching the pattern marked
+export function HighlightedText({ text, pattern }: { text: string; pattern: RegExp | null }) {
+  if (!pattern) return text
+
+  return text.split(pattern).map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="rounded-sm bg-yellow-300/80 text-inherit dark:bg-yellow-500/60">
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  )
+}
+
+// Text with @mentions turned into chips; the rest gets search highlighting
+function MentionedText({
+  text,
+  pattern,
+  mentions,
+}: {
+  text: string
+  pattern: RegExp | null
+  mentions: MentionOptions | null
+}) {
+  if (!mentions) return <HighlightedText text={text} pattern={pattern} />
+
+  return text.split(mentions.lookup.pattern).map((part, index) => {
+    const mention = index % 2 === 1 ? mentions.lookup.byText.get(part) : undefined
+    if (!mention) return <HighlightedText key={index} text={part} pattern={pattern} />
+
+    const className = cn(
+      'rounded px-0.5 font-medium',
+      mention.user_id === mentions.currentUserId ? 'bg-yellow-300/60 dark:bg-yellow-500/40' : 'bg-black/10'
+    )
+    return mentions.onClick ? (
+      <button
+        key={index}
+        type="button"
+        className={cn(className, 'hover:underline underline-offset-2')}
+        onClick={(e) => {
+          e.stopPropagation()
+          mentions.onClick?.(mention)
+        }}
+      >
+        {part}
+      </button>
+    ) : (
+      <span key={index} className={className}>
+        {part}
+      </span>
+    )
+  })
+}
+
+function InlineNodes({
+  nodes,
+  pattern,
+  mentions,
+}: {
+  nodes: RichInline[]
+  pattern: RegExp | null
+  mentions: MentionOptions | null
+}) {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'bold':
+        return (
+          <strong key={index} className="font-semibold">
+            <InlineNodes nodes={node.children} pattern={pattern} mentions={mentions} />
+          </strong>
+        )
+      case 'italic':
+        return (
+          <em key={index}>
+            <InlineNodes nodes={node.children} pattern={pattern} mentions={mentions} />
+          </em>
+        )
+      case 'code':
+        return (
+          <code key={index} className="rounded bg-black/10 px-1 py-0.5 font-mono text-[0.85em]">
+            {node.text}
+          </code>
+        )
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="underline underline-offset-2 break-all"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {node.text}
+          </a>
+        )
+      default:
+        return <MentionedText key={index} text={node.text} pattern={pattern} mentions={mentions} />
+    }
+  })
+}
+
+function CodeBlock({ code, language }: { code: string; language?: string }) {
+  const { t } = useTranslation()
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code)
+      toast.success(t('chat.codeCopied'))
+    } catch {
+      toast.error(t('common.error'))
+    }
+  }
+
+  return (
+    <div className="group/code relative my-1 rounded-md bg-black/15">
+      <div className="flex items-center justify-between px-2 pt-1 text-[10px] uppercase opacity-70">
+        <span>{language}</span>
+        <button
+          type="button"
+          onClick={copy}
+          className="inline-flex items-center gap-1 rounded px-1 normal-case hover:bg-black/10"
+          aria-label={t('chat.copyCode')}
+          title={t('chat.copyCode')}
+        >
+          <Copy className="h-3 w-3" />
+        </button>
+      </div>
+      <pre className="overflow-x-auto px-2 pb-2 font-mono text-xs">
+        <code>{code}</code>
+      </pre>
+    </div>
+  )
+}
+
+// Message text with the markdown subset from lib/richText rendered as elements
+export function RichText({
+  content,
+  highlight,
+  mentions,
+  currentUserId,
+  onMentionClick,
+  className,
+}: RichTextProps) {
+  const blocks = useMemo(() => parseRichText(content), [content])
+  const pattern = useMemo(() => (highlight ? getHighlightPattern(highlight) : null), [highlight])
+  const mentionOptions = useMemo(() => {
+    const lookup = getMentionLookup(content, mentions)
+    return lookup ? { lookup, currentUserId, onClick: onMentionClick } : null
+  }, [content, mentions, currentUserId, onMentionClick])
+
+  return (
+    <div className={cn('text-sm break-words', className)}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'code_block':
+            return <CodeBlock key={index} code={block.code} language={block.language} />
+          case 'quote':
+            return (
+              <blockquote
+                key={index}
+                className="my-1 whitespace-pre-wrap border-l-2 border-current pl-2 opacity-80"
+              >
+                <InlineNodes nodes={block.children} pattern={pattern} mentions={mentionOptions} />
+              </blockquote>
+            )
+          default:
+            return (
+              <p key={index} className="whitespace-pre-wrap">
+                <InlineNodes nodes={block.children} pattern={pattern} mentions={mentionOptions} />
+              </p>
+            )
+        }
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+import { useTranslation } from 'react-i18next'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type { MessageSearchFilters } from '@/services/chatService'
+import type { User } from '@/types'
+
+interface SearchFiltersPanelProps {
+  filters: MessageSearchFilters
+  // People offered in the sender list besides "Anyone" and "Me"
+  senders: User[]
+  currentUserId: string
+  onChange: (filters: MessageSearchFilters) => void
+}
+
+// Sender, date range and "has media" filters for the sidebar message search
+export function SearchFiltersPanel({
+  filters,
+  senders,
+  currentUserId,
+  onChange,
+}: SearchFiltersPanelProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="mt-3 grid grid-cols-2 gap-2 text-sm">
+      <div className="col-span-2 space-y-1">
+        <Label htmlFor="search-sender" className="text-xs text-muted-foreground">
+          {t('chat.filterSender')}
+        </Label>
+        <select
+          id="search-sender"
+          value={filters.senderId ?? ''}
+          onChange={(e) => onChange({ ...filters, senderId: e.target.value || undefined })}
+          className="h-9 w-full rounded-md border border-border bg-background px-2 text-sm text-foreground"
+        >
+          <option value="">{t('chat.filterAnyone')}</option>
+          <option value={currentUserId}>{t('chat.you')}</option>
+          {senders.map((sender) => (
+            <option key={sender.id} value={sender.id}>
+              {sender.username || sender.email}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="search-from" className="text-xs text-muted-foreground">
+          {t('chat.filterFrom')}
+        </Label>
+        <Input
+          id="search-from"
+          type="date"
+          value={filters.fromDate ?? ''}
+          max={filters.toDate}
+          onChange={(e) => onChange({ ...filters, fromDate: e.target.value || undefined })}
+          className="h-9 bg-background border-border"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="search-to" className="text-xs text-muted-foreground">
+          {t('chat.filterTo')}
+        </Label>
+        <Input
+          id="search-to"
+          type="date"
+          value={filters.toDate ?? ''}
+          min={filters.fromDate}
+          onChange={(e) => onChange({ ...filters, toDate: e.target.value || undefined })}
+          className="h-9 bg-background border-border"
+        />
+      </div>
+      <label className="col-span-2 flex items-center gap-2 text-foreground">
+        <input
+          type="checkbox"
+          checked={!!filters.hasMedia}
+          onChange={(e) => onChange({ ...filters, hasMedia: e.target.checked || undefined })}
+          className="h-4 w-4 accent-primary"
+        />
+        {t('chat.filterHasMedia')}
+      </label>
+    </div>
+  )
+}
@@ -1,25 +1,43 @@
-import { useState, useEffect, useMemo } from 'react'
-import { Search } from 'lucide-react'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { Search, SlidersHorizontal } from 'lucide-react'
+import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { ScrollArea } from '@/components/ui/scroll-area'
-import { chatService } from '@/services/chatService'
+import { chatService, type MessageSearchFilters } from '@/services/chatService'
 import { useWebSocket } from '@/hooks/useWebSocket'
+import { realtimeClient } from '@/services/realtimeClient'
+import { MessageSearchResults } from './MessageSearchResults'
+import { MessageStatus } from './MessageStatus'
+import { SearchFiltersPanel } from './SearchFiltersPanel'
+import { UserAvatar } from './UserAvatar'
+import { cn } from '@/lib/utils'
 import type { User, Message } from '@/types'
 import { useAuth } from '@/hooks/useAuth'
+import { useAppSelector } from '@/store/hooks'
+import { useStableCallback } from '@/hooks/useStableCallback'
 import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
 import api from '@/services/api'
+import { createLogger } from '@/lib/logger'
+import { toDeletedMessage } from '@/lib/messages'
+import { mentionsUser } from '@/lib/mentions'
+import { toPlainText } from '@/lib/richText'
+
+const log = createLogger('sidebar')
 
 interface ChatContact {
   id: string
   user: User
   lastMessage?: Message
   unreadCount: number
+  // Unread messages that mention the current user
+  unreadMentionCount: number
 }
 
 interface SidebarProps {
   selectedUserId: string | null
-  onSelectUser: (userId: string) => void
+  // messageId is set when a message search hit was picked
+  onSelectUser: (userId: string, messageId?: string) => void
   onChatListUpdate?: () => void
 }
 
@@ -31,19 +49,49 @@ export function Sidebar({ selectedUserId, onSelectUser, onChatListUpdate }: Side
   const [contacts, setContacts] = useState<ChatContact[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isSearching, setIsSearching] = useState(false)
-  const [onlineUsers, setOnlineUsers] = useState<Set<string>>(new Set())
+  const [messageResults, setMessageResults] = useState<Message[]>([])
+  const [isSearchingMessages, setIsSearchingMessages] = useState(false)
+  const [messageFilters, setMessageFilters] = useState<MessageSearchFilters>({})
+  const [showFilters, setShowFilters] = useState(false)
+  // Only the latest message search may update the results
+  const messageSearchIdRef = useRef(0)
+  const typingUserIds = useAppSelector((state) => state.typing.userIds)
+  const allDrafts = useAppSelector((state) => state.drafts.byPeer)
+
+  const loadContacts = useStableCallback(async () => {
+    try {
+      setIsLoading(true)
+      // Use chat list endpoint which returns all users with messages (Telegram-like)
+      const chatList = await chatService.getChatList()
+      setContacts(chatList)
+      // Notify parent if callback provided
+      if (onChatListUpdate) {
+        onChatListUpdate()
+      }
+    } catch (error) {
+      log.error('Failed to load chat list', error)
+      toast.error(t('common.error'))
+    } finally {
+      setIsLoading(false)
+    }
+  })
 
-  // Load contacts on mount and periodically refresh to sync with backend
+  // Load contacts on mount, and again when the realtime client asks for a resync or has
+  // reconnected: it only replays new messages, not edits, deletions or read state
   useEffect(() => {
     loadContacts()
-    
-    // Refresh chat list every 30 seconds to sync with backend (fallback for missed WebSocket messages)
-    const refreshInterval = setInterval(() => {
+
+    const unsubscribeResync = realtimeClient.onResync(() => {
       loadContacts()
-    }, 30000)
-    
-    return () => clearInterval(refreshInterval)
-  }, [])
+    })
+    const unsubscribeReconnected = realtimeClient.onReconnected(() => {
+      loadContacts()
+    })
+    return () => {
+      unsubscribeResync()
+      unsubscribeReconnected()
+    }
+  }, [loadContacts])
 
   // Clear unread count when chat is selected
   useEffect(() => {
@@ -51,7 +99,7 @@ export function Sidebar({ selectedUserId, onSelectUser, onChatListUpdate }: Side
       setContacts((prev) =>
         prev.map((contact) =>
           contact.id === selectedUserId
-            ? { ...contact, unreadCount: 0 }
+            ? { ...contact, unreadCount: 0, unreadMentionCount: 0 }
             : contact
         )
       )
@@ -71,23 +119,45 @@ export function Sidebar({ selectedUserId, onSelectUser, onChatListUpdate }: Side
     }
   }, [searchQuery])
 
+  const hasMessageFilters = Object.values(messageFilters).some(Boolean)
+  const isSearchActive = searchQuery.trim().length > 0 || hasMessageFilters
+
+  // Search message contents across all chats; filters alone are enough to search
+  useEffect(() => {
+    const searchId = ++messageSearchIdRef.current
+    if (!isSearchActive) {
+      setMessageResults([])
+      setIsSearchingMessages(false)
+      return
+    }
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        setIsSearchingMessages(true)
+        const messages = await chatService.searchMessages(searchQuery.trim(), messageFilters)
+        if (searchId === messageSearchIdRef.current) {
+          setMessageResults(messages)
+        }
+      } catch (error) {
+        log.error('Failed to search messages', error)
+        toast.error(t('common.error'))
+      } finally {
+        if (searchId === messageSearchIdRef.current) {
+          setIsSearchingMessages(false)
+        }
+      }
+    }, 300)
+    return () => clearTimeout(timeoutId)
+  }, [searchQuery, messageFilters, isSearchActive, t])
+
   // WebSocket handlers
   const handleWebSocketMessage = (message: Message) => {
-    console.log('📬 Sidebar received WebSocket message:', {
-      messageId: message.id,
-      senderId: message.sender_id,
-      receiverId: message.receiver_id,
-      currentUserId: currentUser?.id,
-      isRead: message.is_read,
-      content: message.content,
-    })
-    
     // Determine contact ID (the other user in the conversation)
     const contactId =
       message.sender_id === currentUser?.id ? message.receiver_id : message.sender_id
 
     if (!contactId) {
-      console.log('⚠️ No contactId found, skipping')
+      log.warn('Message has no counterpart, skipping', message.id)
       return
     }
 
@@ -101,6 +171,10 @@ export function Sidebar({ selectedUserId, onSelectUser, onChatListUpdate }: Side
         const existingContact = updated[existingContactIndex]
         const isUnread = message.sender_id !== currentUser?.id && !message.is_read
         const isSelected = selectedUserId === contactId
+        const isUnreadMention = isUnread && !isSelected && mentionsUser(message, currentUser?.id)
+        const unreadMentionCount = isSelected
+          ? 0
+          : existingContact.unreadMentionCount + (isUnreadMention ? 1 : 0)
         
         // Check if this message is newer than the current last message
         const currentLastMessageTime = existingContact.lastMessage
@@ -109,16 +183,6 @@ export function Sidebar({ selectedUserId, onSelectUser, onChatListUpdate }: Side
         const newMessageTime = new Date(message.created_at).getTime()
         const isNewerMessage = newMessageTime >= currentLastMessageTime
         
-        console.log('📊 Updating contact:', {
-          contactId,
-          isUnread,
-          isSelected,
-          isNewerMessage,
-          currentUnreadCount: existingContact.unreadCount,
-          currentLastMessage: existingContact.lastMessage?.content,
-          newMessage: message.content,
-        })
-        
         // Always update last message if this is newer or equal (to handle same timestamp)
         if (isNewerMessage || newMessageTime === currentLastMessageTime) {
           updated[existingContactIndex] = {
@@ -131,25 +195,16 @@ export function Sidebar({ selectedUserId, onSelectUser, onChatListUpdate }: Side
                 : isSelected
                 ? 0 // Clear unread count when chat is selected
                 : existingContact.unreadCount,
+            unreadMentionCount,
           }
-          console.log('✅ Updated contact with new last message:', {
-            contactId,
-            newLastMessage: message.content,
-            newUnreadCount: updated[existingContactIndex].unreadCount,
-          })
         } else {
           // Message is older, but still update unread count if needed
           if (isUnread && !isSelected) {
             updated[existingContactIndex] = {
               ...updated[existingContactIndex],
               unreadCount: existingContact.unreadCount + 1,
+              unreadMentionCount,
             }
-            console.log('✅ Updated unread count for older message:', {
-              contactId,
-              newUnreadCount: updated[existingContactIndex].unreadCount,
-            })
-          } else {
-            console.log('⚠️ Skipping update - message is older and not unread')
           }
         }
         
@@ -192,10 +247,7 @@ export function Sidebar({ selectedUserId, onSelectUser, onChatListUpdate }: Side
                   const updated = [...prevContacts]
                   updated[existingIndex] = {
                     ...updated[existingIndex],
-                    user: {
-                      ...fetchedUser,
-                      is_online: onlineUsers.has(contactId),
-                    },
+                    user: fetchedUser,
                   }
                   return updated
                 }
@@ -203,38 +255,28 @@ export function Sidebar({ selectedUserId, onSelectUser, onChatListUpdate }: Side
               })
             })
             .catch((error) => {
-              console.error('Failed to fetch user info:', error)
+              log.error('Failed to fetch user info', error)
             })
         }
 
         const isUnread = message.sender_id !== currentUser?.id && !message.is_read
         const isSelected = selectedUserId === contactId
         
-        console.log('➕ Creating new contact:', {
-          contactId,
-          isUnread,
-          isSelected,
-          hasUserInfo: !!otherUserInfo,
-        })
-        
+        log.debug('Adding contact from an incoming message', contactId)
+
         const newContact: ChatContact = {
           id: contactId,
-          user: otherUserInfo
-            ? {
-                ...otherUserInfo,
-                is_online: onlineUsers.has(contactId),
-              }
-            : {
-                id: contactId,
-                email: '',
-                username: '',
-                is_active: true,
-                is_verified: false,
-                is_superuser: false,
-                is_online: onlineUsers.has(contactId),
-              },
+          user: otherUserInfo || {
+            id: contactId,
+            email: '',
+            username: '',
+            is_active: true,
+            is_verified: false,
+            is_superuser: false,
+          },
           lastMessage: message,
           unreadCount: isUnread && !isSelected ? 1 : 0,
+          unreadMentionCount: isUnread && !isSelected && mentionsUser(message, currentUser?.id) ? 1 : 0,
         }
         // Add new contact and sort
         const updated = [...prev, newContact]
@@ -249,68 +291,75 @@ export function Sidebar({ selectedUserId, onSelectUser, onChatListUpdate }: Side
         })
       }
     })
-    
-    // Force a re-render by updating state
-    console.log('✅ Sidebar updated with new message')
   }
 
-  const handleOnlineStatus = (userId: string, isOnline: boolean) => {
-    setOnlineUsers((prev) => {
-      const newSet = new Set(prev)
-      if (isOnline) {
-        newSet.add(userId)
-      } else {
-        newSet.delete(userId)
-      }
-      return newSet
-    })
+  // Online status lives in the presence store, which UserAvatar reads directly
+  useWebSocket(handleWebSocketMessage)
 
-    // Update contact online status
-    setContacts((prev) =>
-      prev.map((contact) => {
-        if (contact.user.id === userId) {
-          return {
-            ...contact,
-            user: {
-              ...contact.user,
-              is_online: isOnline,
-            },
-          }
-        }
-        return contact
-      })
-    )
-  }
+  // A conversation read in another tab has no unread messages here either
+  useEffect(() => {
+    return realtimeClient.onTabEvent((event) => {
+      if (event.type !== 'conversation_read') return
+      setContacts((prev) =>
+        prev.map((contact) =>
+          contact.id === event.peer_id
+            ? { ...contact, unreadCount: 0, unreadMentionCount: 0 }
+            : contact
+        )
+      )
+    })
+  }, [])
 
-  useWebSocket(handleWebSocketMessage, handleOnlineStatus)
+  // Keep the tick mark on our own last message in sync. Receipts name the newest message
+  // read, and the preview is the chat's newest message, so only a receipt for it covers it.
+  useEffect(() => {
+    return realtimeClient.on('read_receipt', (event) => {
+      setContacts((prev) =>
+        prev.map((contact) =>
+          contact.id === event.reader_id &&
+          contact.lastMessage &&
+          contact.lastMessage.sender_id !== event.reader_id &&
+          contact.lastMessage.id === event.message_id
+            ? { ...contact, lastMessage: { ...contact.lastMessage, is_read: true } }
+            : contact
+        )
+      )
+    })
+  }, [])
 
-  const loadContacts = async () => {
-    try {
-      setIsLoading(true)
-      // Use chat list endpoint which returns all users with messages (Telegram-like)
-      const chatList = await chatService.getChatList()
-      
-      // Update online status for users
-      const chatContacts: ChatContact[] = chatList.map((item) => ({
-        ...item,
-        user: {
-          ...item.user,
-          is_online: onlineUsers.has(item.id),
-        },
-      }))
+  // Edits and deletions of the message shown as a chat's preview
+  useEffect(() => {
+    const unsubscribeUpdated = realtimeClient.on('message_updated', ({ type: _type, ...message }) => {
+      setContacts((prev) =>
+        prev.map((contact) =>
+          contact.lastMessage?.id === message.id
+            ? { ...contact, lastMessage: { ...contact.lastMessage, ...message } }
+            : contact
+        )
+      )
+    })
 
-      setContacts(chatContacts)
-      // Notify parent if callback provided
-      if (onChatListUpdate) {
-        onChatListUpdate()
+    const unsubscribeDeleted = realtimeClient.on('message_deleted', (event) => {
+      if (!event.for_everyone) {
+        // Rare (our own action on some device) and the preview may have to fall back
+        // to an older message only the server knows about
+        loadContacts()
+        return
       }
-    } catch (error) {
-      console.error('Failed to load chat list:', error)
-      toast.error(t('common.error'))
-    } finally {
-      setIsLoading(false)
+      setContacts((prev) =>
+        prev.map((contact) =>
+          contact.lastMessage?.id === event.message_id
+            ? { ...contact, lastMessage: toDeletedMessage(contact.lastMessage, event.deleted_at) }
+            : contact
+        )
+      )
+    })
+
+    return () => {
+      unsubscribeUpdated()
+      unsubscribeDeleted()
     }
-  }
+  }, [loadContacts])
 
   const searchUsers = async (query: string) => {
     try {
@@ -318,13 +367,18 @@ export function Sidebar({ selectedUserId, onSelectUser, onChatListUpdate }: Side
       const users = await chatService.searchUsers(query)
       setSearchResults(users)
     } catch (error) {
-      console.error('Failed to search users:', error)
+      log.error('Failed to search users', error)
       toast.error(t('common.error'))
     } finally {
       setIsSearching(false)
     }
   }
 
+  // Hits only carry the sender, so the other side of our own messages comes from the lists
+  const getChatUser = (chatId: string) =>
+    contacts.find((contact) => contact.id === chatId)?.user ??
+    searchResults.find((user) => user.id === chatId)
+
   const handleSelectUser = async (userId: string) => {
     // If user is from search results, try to add to contacts (but don't block if it fails)
     // This allows messaging without requiring contact first (Telegram-like)
@@ -337,7 +391,7 @@ export function Sidebar({ selectedUserId, onSelectUser, onChatListUpdate }: Side
           await loadContacts()
         } catch (error: any) {
           // Silently continue - contact will be auto-created when message is sent
-          console.log('Contact not added yet, will be created on first message')
+          log.debug('Contact not added yet, it will be created on the first message', error)
         }
       }
     }
@@ -350,107 +404,172 @@ export function Sidebar({ selectedUserId, onSelectUser, onChatListUpdate }: Side
     if (searchQuery.trim().length > 0) {
       return searchResults.map((user) => ({
         id: user.id,
-        user: {
-          ...user,
-          is_online: onlineUsers.has(user.id),
-        },
+        user,
         lastMessage: undefined,
         unreadCount: 0,
+        unreadMentionCount: 0,
       }))
     }
+    // Searching by filters only finds messages, not people
+    if (hasMessageFilters) return []
     return contacts
-  }, [searchQuery, searchResults, contacts, onlineUsers])
+  }, [searchQuery, searchResults, contacts, hasMessageFilters])
 
   return (
     <div className="flex flex-col h-full bg-background border-r">
       {/* Search Bar */}
       <div className="p-4 border-b bg-background">
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            type="text"
-            placeholder={t('common.search')}
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10 bg-background border-border"
-            disabled={isSearching}
-          />
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              type="text"
+              placeholder={t('common.search')}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10 bg-background border-border"
+              disabled={isSearching}
+            />
+          </div>
+          <Button
+            variant={showFilters || hasMessageFilters ? 'secondary' : 'ghost'}
+            size="icon"
+            onClick={() => setShowFilters((prev) => !prev)}
+            aria-label={t('chat.searchFilters')}
+            aria-pressed={showFilters}
+            title={t('chat.searchFilters')}
+            className="flex-shrink-0"
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+          </Button>
         </div>
+        {showFilters && currentUser && (
+          <SearchFiltersPanel
+            filters={messageFilters}
+            senders={contacts.map((contact) => contact.user)}
+            currentUserId={currentUser.id}
+            onChange={setMessageFilters}
+          />
+        )}
       </div>
 
       {/* Contacts/Results List */}
       <ScrollArea className="flex-1">
         {isLoading ? (
           <div className="p-4 text-center text-muted-foreground">{t('common.loading')}</div>
-        ) : displayItems.length === 0 ? (
+        ) : displayItems.length === 0 && messageResults.length === 0 ? (
           <div className="p-4 text-center text-muted-foreground">
-            {searchQuery ? t('chat.noResults') : t('chat.noContacts')}
+            {isSearchingMessages
+              ? t('common.loading')
+              : isSearchActive
+              ? t('chat.noResults')
+              : t('chat.noContacts')}
           </div>
         ) : (
-          <div className="divide-y divide-border">
-            {displayItems.map((item) => {
-              const isSelected = selectedUserId === item.id
-              const displayUser = item.user
-
-              return (
-                <button
-                  key={item.id}
-                  onClick={() => handleSelectUser(item.id)}
-                  className={`w-full p-4 hover:bg-muted/50 transition-colors text-left ${
-                    isSelected ? 'bg-muted' : 'bg-background'
-                  }`}
-                >
-                  <div className="flex items-center gap-3">
-                    <div className="relative flex-shrink-0">
-                      <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center text-primary font-semibold">
-                        {displayUser.username?.[0]?.toUpperCase() ||
-                          displayUser.email[0]?.toUpperCase() ||
-                          '?'}
-                      </div>
-                      {displayUser.is_online && (
-                        <div className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 rounded-full border-2 border-background" />
-                      )}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center justify-between mb-1">
-                        <p className="font-medium truncate text-sm text-foreground">
-                          {displayUser.username || displayUser.email}
-                        </p>
-                        {item.lastMessage && (
-                          <span className="text-xs text-muted-foreground flex-shrink-0 ml-2">
-                            {new Date(item.lastMessage.created_at).toLocaleTimeString([], {
-                              hour: '2-digit',
-                              minute: '2-digit',
-                            })}
-                          </span>
-                        )}
-                      </div>
-                      <div className="flex items-center justify-between">
-                      <div className="flex items-center justify-between w-full">
-                        {item.lastMessage && (
-                          <p className="text-sm text-muted-foreground truncate flex-1 mr-2">
-                            {item.lastMessage.media_url
-                              ? item.lastMessage.media_type?.startsWith('image/')
-                                ? '📷 Photo'
-                                : item.lastMessage.media_type?.startsWith('video/')
-                                ? '🎥 Video'
-                                : '📎 File'
-                              : item.lastMessage.content}
+          <>
+            {isSearchActive && displayItems.length > 0 && (
+              <p className="px-4 pt-3 pb-1 text-xs font-semibold uppercase text-muted-foreground">
+                {t('chat.people')}
+              </p>
+            )}
+            <div className="divide-y divide-border">
+              {displayItems.map((item) => {
+                const isSelected = selectedUserId === item.id
+                const displayUser = item.user
+                // The open chat shows its draft in the composer instead
+                const draft = isSelected ? undefined : allDrafts[item.id]
+                // A draft may hold only the message being replied to
+                const draftText = draft && (toPlainText(draft.text).trim() || (draft.reply_to ? t('chat.reply') : ''))
+
+                return (
+                  <button
+                    key={item.id}
+                    onClick={() => handleSelectUser(item.id)}
+                    className={`w-full p-4 hover:bg-muted/50 transition-colors text-left ${
+                      isSelected ? 'bg-muted' : 'bg-background'
+                    }`}
+                  >
+                    <div className="flex items-center gap-3">
+                      <UserAvatar user={displayUser} className="w-12 h-12" />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between mb-1">
+                          <p className="font-medium truncate text-sm text-foreground">
+                            {displayUser.username || displayUser.email}
                           </p>
-                        )}
-                        {item.unreadCount > 0 && (
-                          <span className="bg-primary text-primary-foreground text-xs font-semibold rounded-full px-2 py-0.5 min-w-[20px] text-center flex-shrink-0">
-                            {item.unreadCount > 99 ? '99+' : item.unreadCount}
-                          </span>
-                        )}
-                      </div>
+                          {item.lastMessage && (
+                            <span className="text-xs text-muted-foreground flex-shrink-0 ml-2">
+                              {new Date(item.lastMessage.created_at).toLocaleTimeString([], {
+                                hour: '2-digit',
+                                minute: '2-digit',
+                              })}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center justify-between">
+                        <div className="flex items-center justify-between w-full">
+                          {typingUserIds[item.id] ? (
+                            <p className="text-sm text-primary italic truncate flex-1 mr-2">
+                              {t('chat.typing')}
+                            </p>
+                          ) : draftText ? (
+                            <p className="text-sm text-muted-foreground truncate flex-1 min-w-0 mr-2">
+                              <span className="text-destructive">{t('chat.draft')}</span> {draftText}
+                            </p>
+                          ) : item.lastMessage && (
+                            <p className="text-sm text-muted-foreground flex-1 min-w-0 mr-2 flex items-center gap-1">
+                              {item.lastMessage.sender_id === currentUser?.id && (
+                                <MessageStatus message={item.lastMessage} className="flex-shrink-0" />
+                              )}
+                              <span className={cn('truncate', item.lastMessage.deleted_at && 'italic')}>
+                                {item.lastMessage.deleted_at
+                                  ? t('chat.messageDeleted')
+                                  : item.lastMessage.media_url
+                                  ? item.lastMessage.media_type?.startsWith('image/')
+                                    ? t('chat.photo')
+                                    : item.lastMessage.media_type?.startsWith('video/')
+                                    ? t('chat.video')
+                                    : t('chat.file')
+                                  : toPlainText(item.lastMessage.content)}
+                              </span>
+                            </p>
+                          )}
+                          {item.unreadMentionCount > 0 && (
+                            <span
+                              className="bg-primary text-primary-foreground text-xs font-semibold rounded-full w-5 h-5 flex items-center justify-center flex-shrink-0 mr-1"
+                              title={t('chat.mentioned')}
+                              aria-label={t('chat.mentioned')}
+                            >
+                              @
+                            </span>
+                          )}
+                          {item.unreadCount > 0 && (
+                            <span className="bg-primary text-primary-foreground text-xs font-semibold rounded-full px-2 py-0.5 min-w-[20px] text-center flex-shrink-0">
+                              {item.unreadCount > 99 ? '99+' : item.unreadCount}
+                            </span>
+                          )}
+                        </div>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                </button>
-              )
-            })}
-          </div>
+                  </button>
+                )
+              })}
+            </div>
+            {isSearchActive && messageResults.length > 0 && currentUser && (
+              <>
+                <p className="px-4 pt-3 pb-1 text-xs font-semibold uppercase text-muted-foreground border-t">
+                  {t('chat.messages')}
+                </p>
+                <MessageSearchResults
+                  messages={messageResults}
+                  query={searchQuery.trim()}
+                  currentUserId={currentUser.id}
+                  getChatUser={getChatUser}
+                  onOpen={(chatId, messageId) => onSelectUser(chatId, messageId)}
+                />
+              </>
+            )}
+          </>
         )}
       </ScrollArea>
     </div>
@@ -0,0 +1,30 @@
+import { cn } from '@/lib/utils'
+import { usePresence } from '@/hooks/usePresence'
+import type { User } from '@/types'
+
+interface UserAvatarProps {
+  user: User
+  className?: string
+  showPresence?: boolean
+}
+
+// Initial-letter avatar with a live online dot from the presence store
+export function UserAvatar({ user, className, showPresence = true }: UserAvatarProps) {
+  const { isOnline } = usePresence(user)
+
+  return (
+    <div className="relative flex-shrink-0">
+      <div
+        className={cn(
+          'w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center text-primary font-semibold',
+          className
+        )}
+      >
+        {user.username?.[0]?.toUpperCase() || user.email[0]?.toUpperCase() || '?'}
+      </div>
+      {showPresence && isOnline && (
+        <div className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 rounded-full border-2 border-background" />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react'
+import { MessageSquare } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { chatService } from '@/services/chatService'
+import { createLogger } from '@/lib/logger'
+import { PresenceStatus } from './PresenceStatus'
+import { UserAvatar } from './UserAvatar'
+import type { User } from '@/types'
+
+const log = createLogger('chat')
+
+interface UserProfileDialogProps {
+  userId: string
+  // Shown right away while the full profile loads
+  user?: User
+  // Left out for ourselves
+  onSendMessage?: (userId: string) => void
+  onClose: () => void
+}
+
+// Someone's profile, opened from a mention. Mounted only while open.
+export function UserProfileDialog({ userId, user, onSendMessage, onClose }: UserProfileDialogProps) {
+  const { t } = useTranslation()
+  const [profile, setProfile] = useState<User | undefined>(user)
+
+  useEffect(() => {
+    let cancelled = false
+    chatService
+      .getUser(userId)
+      .then((loaded) => {
+        if (!cancelled) setProfile(loaded)
+      })
+      .catch((error) => {
+        log.error('Failed to load user profile', error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  const fullName = profile ? [profile.first_name, profile.last_name].filter(Boolean).join(' ') : ''
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader className="items-center text-center sm:text-center">
+          {profile && <UserAvatar user={profile} className="w-16 h-16 text-2xl" />}
+          <DialogTitle>{profile ? fullName || profile.username : t('common.loading')}</DialogTitle>
+          <DialogDescription>{profile && `@${profile.username}`}</DialogDescription>
+          {profile && <PresenceStatus user={profile} />}
+        </DialogHeader>
+        {onSendMessage && (
+          <DialogFooter>
+            <Button className="w-full" onClick={() => onSendMessage(userId)}>
+              <MessageSquare className="h-4 w-4 mr-2" />
+              {t('chat.sendMessage')}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
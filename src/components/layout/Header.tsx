@@ -12,7 +12,9 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { ThemeToggle } from '@/components/ui/ThemeToggle'
 import { LanguageSwitcher } from '@/components/ui/LanguageSwitcher'
-import { LogOut, User } from 'lucide-react'
+import { UserAvatar } from '@/components/chat/UserAvatar'
+import { downloadLogs } from '@/lib/logger'
+import { Bug, LogOut, User } from 'lucide-react'
 
 export function Header() {
   const { t } = useTranslation()
@@ -31,9 +33,7 @@ export function Header() {
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" size="sm" className="gap-2">
-                  <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center text-primary font-semibold text-sm">
-                    {user.username?.[0]?.toUpperCase() || user.email[0]?.toUpperCase() || '?'}
-                  </div>
+                  <UserAvatar user={user} className="w-8 h-8 text-sm" showPresence={false} />
                   <span className="hidden sm:inline text-sm">
                     {user.username || user.email}
                   </span>
@@ -53,6 +53,10 @@ export function Header() {
                     <span>{t('profile.title')}</span>
                   </Link>
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={downloadLogs} className="cursor-pointer">
+                  <Bug className="mr-2 h-4 w-4" />
+                  <span>{t('common.downloadLogs')}</span>
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={logout} className="cursor-pointer text-destructive">
                   <LogOut className="mr-2 h-4 w-4" />
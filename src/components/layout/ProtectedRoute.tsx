@@ -3,6 +3,9 @@ import { Navigate } from 'react-router-dom'
 import { useAppSelector, useAppDispatch } from '@/store/hooks'
 import { authService } from '@/services/authService'
 import { setCredentials } from '@/store/slices/authSlice'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('auth')
 
 interface ProtectedRouteProps {
   children: React.ReactNode
@@ -27,7 +30,7 @@ export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
             currentUser = await authService.getCurrentUser()
           } catch (error) {
             // If getCurrentUser fails, try to refresh token
-            console.log('🔄 getCurrentUser failed, trying to refresh token...')
+            log.info('Loading the current user failed, trying to refresh the token')
             try {
               const refreshResponse = await authService.refreshToken()
               token = refreshResponse.access_token
@@ -35,7 +38,7 @@ export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
               // Try again with new token
               currentUser = await authService.getCurrentUser()
             } catch (refreshError) {
-              console.error('❌ Failed to refresh token:', refreshError)
+              log.warn('Failed to refresh access token', refreshError)
               hasCheckedAuth.current = false
               return
             }
@@ -51,11 +54,11 @@ export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
                   accessToken: finalToken,
                 })
               )
-              console.log('✅ User loaded in ProtectedRoute:', currentUser.id)
+              log.debug('Current user loaded', currentUser.id)
             }
           }
         } catch (error) {
-          console.error('❌ Failed to load user in ProtectedRoute:', error)
+          log.error('Failed to load the current user', error)
           // If we can't get user, silently fail - will redirect to login
           hasCheckedAuth.current = false
         }
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react'
+import { realtimeClient } from '@/services/realtimeClient'
+
+export function useConnectionState() {
+  return useSyncExternalStore(realtimeClient.subscribeStatus, realtimeClient.getState)
+}
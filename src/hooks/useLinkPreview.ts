@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react'
+import { linkPreviews } from '@/services/linkPreviews'
+
+// Cached preview for a URL, fetched whenever it isn't cached. undefined while loading, null if there is none
+export function useLinkPreview(url?: string) {
+  const getSnapshot = useCallback(() => (url ? linkPreviews.get(url) : null), [url])
+  const preview = useSyncExternalStore(linkPreviews.subscribe, getSnapshot)
+
+  useEffect(() => {
+    if (url) {
+      return linkPreviews.retain(url)
+    }
+  }, [url])
+
+  // Also refetches an entry that was evicted while another card still showed it
+  const missing = preview === undefined
+  useEffect(() => {
+    if (url && missing) {
+      void linkPreviews.load(url)
+    }
+  }, [url, missing])
+
+  return preview
+}
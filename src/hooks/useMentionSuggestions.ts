@@ -0,0 +1,54 @@
+import { useEffect, useMemo, useState } from 'react'
+import { chatService } from '@/services/chatService'
+import { useDebouncedValue } from '@/hooks/useDebouncedValue'
+import { matchesMentionQuery } from '@/lib/mentions'
+import { createLogger } from '@/lib/logger'
+import type { User } from '@/types'
+
+const log = createLogger('mentions')
+
+const SEARCH_DELAY = 300
+const MAX_SUGGESTIONS = 5
+
+// People to offer for the @mention being typed (null when none is): conversation
+// participants matching the query first, then other users found by search
+export function useMentionSuggestions(query: string | null, participants: User[], currentUserId?: string) {
+  const debouncedQuery = useDebouncedValue(query, SEARCH_DELAY)
+  const [searchResults, setSearchResults] = useState<User[]>([])
+
+  useEffect(() => {
+    if (!debouncedQuery) return
+
+    let cancelled = false
+    chatService
+      .searchUsers(debouncedQuery)
+      .then((users) => {
+        if (!cancelled) setSearchResults(users)
+      })
+      .catch((error) => {
+        log.warn('Failed to search users to mention', error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [debouncedQuery])
+
+  return useMemo(() => {
+    if (query === null) return []
+
+    // Results of an earlier query still apply as long as they match this one
+    const candidates = [...participants, ...(query ? searchResults : [])]
+    const suggestions: User[] = []
+    for (const user of candidates) {
+      if (
+        user.id !== currentUserId &&
+        user.username &&
+        matchesMentionQuery(user, query) &&
+        !suggestions.some((suggestion) => suggestion.id === user.id)
+      ) {
+        suggestions.push(user)
+      }
+    }
+    return suggestions.slice(0, MAX_SUGGESTIONS)
+  }, [query, participants, searchResults, currentUserId])
+}
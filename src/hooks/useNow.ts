@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react'
+
+// Current time that re-renders the caller every `interval` ms
+export function useNow(interval = 30000) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), interval)
+    return () => clearInterval(id)
+  }, [interval])
+
+  return now
+}
@@ -0,0 +1,14 @@
+import { useAppSelector } from '@/store/hooks'
+import type { User } from '@/types'
+
+// Live presence from the store, falling back to what the REST user object said
+export function usePresence(user?: Pick<User, 'id' | 'is_online' | 'last_seen'> | null) {
+  const presence = useAppSelector((state) =>
+    user ? state.presence.users[user.id] : undefined
+  )
+
+  return {
+    isOnline: presence?.is_online ?? user?.is_online ?? false,
+    lastSeen: presence?.last_seen ?? user?.last_seen,
+  }
+}
@@ -0,0 +1,15 @@
+import { useCallback, useLayoutEffect, useRef } from 'react'
+
+// A callback with a fixed identity that always runs the latest render's version,
+// so it can be passed to memoized children without breaking their memoization
+export function useStableCallback<Args extends unknown[], Result>(
+  callback: (...args: Args) => Result
+) {
+  const callbackRef = useRef(callback)
+
+  useLayoutEffect(() => {
+    callbackRef.current = callback
+  })
+
+  return useCallback((...args: Args) => callbackRef.current(...args), [])
+}
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { useAppSelector } from '@/store/hooks'
+import { realtimeClient } from '@/services/realtimeClient'
+
+const TYPING_THROTTLE = 3000 // Re-announce typing at most every 3 seconds
+const TYPING_IDLE_TIMEOUT = 5000 // Send stop after 5 seconds without keystrokes
+
+// Emits throttled typing start/stop events to the given peer
+export function useTypingEmitter(receiverId: string | null) {
+  const lastSentRef = useRef(0)
+  const idleTimeoutRef = useRef<number | undefined>(undefined)
+
+  const stopTyping = useCallback(() => {
+    if (idleTimeoutRef.current !== undefined) {
+      clearTimeout(idleTimeoutRef.current)
+      idleTimeoutRef.current = undefined
+    }
+    // Only send stop if we actually announced typing
+    if (receiverId && lastSentRef.current > 0) {
+      realtimeClient.send('typing', { receiver_id: receiverId, is_typing: false })
+    }
+    lastSentRef.current = 0
+  }, [receiverId])
+
+  const notifyTyping = useCallback(() => {
+    if (!receiverId) return
+
+    const now = Date.now()
+    if (now - lastSentRef.current >= TYPING_THROTTLE) {
+      realtimeClient.send('typing', { receiver_id: receiverId, is_typing: true })
+      lastSentRef.current = now
+    }
+
+    if (idleTimeoutRef.current !== undefined) {
+      clearTimeout(idleTimeoutRef.current)
+    }
+    idleTimeoutRef.current = window.setTimeout(stopTyping, TYPING_IDLE_TIMEOUT)
+  }, [receiverId, stopTyping])
+
+  // Stop typing when switching conversations or unmounting
+  useEffect(() => stopTyping, [stopTyping])
+
+  return { notifyTyping, stopTyping }
+}
+
+export function useIsTyping(userId?: string | null) {
+  return useAppSelector((state) => (userId ? !!state.typing.userIds[userId] : false))
+}
@@ -1,21 +1,19 @@
-import { useEffect, useRef, useState, useCallback } from 'react'
-import { useAuth } from './useAuth'
-import type { Message } from '@/types'
-
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://127.0.0.1:8000'
+import { useEffect, useRef, useCallback, useSyncExternalStore } from 'react'
+import { realtimeClient } from '@/services/realtimeClient'
+import type { Message, WsOutboundEventType, WsOutboundPayload } from '@/types'
 
+// Subscribes to the shared realtime connection owned by RealtimeProvider.
+// Calling this hook never opens a socket of its own.
 export function useWebSocket(
   onMessage: (message: Message) => void,
   onOnlineStatus?: (userId: string, isOnline: boolean) => void
 ) {
-  const { user } = useAuth()
-  const wsRef = useRef<WebSocket | null>(null)
-  const [isConnected, setIsConnected] = useState(false)
-  const reconnectTimeoutRef = useRef<number | undefined>(undefined)
-  const reconnectAttemptsRef = useRef(0)
-  const maxReconnectAttempts = 5
+  const isConnected = useSyncExternalStore(
+    realtimeClient.subscribeStatus,
+    realtimeClient.getIsConnected
+  )
 
-  // Store callbacks in refs to avoid reconnection on callback changes
+  // Store callbacks in refs to avoid resubscribing on callback changes
   const onMessageRef = useRef(onMessage)
   const onOnlineStatusRef = useRef(onOnlineStatus)
 
@@ -25,199 +23,26 @@ export function useWebSocket(
     onOnlineStatusRef.current = onOnlineStatus
   }, [onMessage, onOnlineStatus])
 
-  const connect = useCallback(async () => {
-    console.log('🔌 WebSocket connect attempt:', {
-      hasUser: !!user,
-      userId: user?.id,
-      isAuthenticated: !!user?.id,
+  useEffect(() => {
+    const unsubscribeMessage = realtimeClient.on('message', ({ type: _type, ...message }) => {
+      onMessageRef.current(message)
     })
 
-    if (!user?.id) {
-      console.warn('❌ No user ID, cannot connect WebSocket')
-      return
-    }
-
-    let accessToken = sessionStorage.getItem('access_token')
-    if (!accessToken) {
-      console.warn('❌ No access token found, trying to refresh...')
-      // Try to refresh token
-      try {
-        const { authService } = await import('@/services/authService')
-        const response = await authService.refreshToken()
-        accessToken = response.access_token
-        sessionStorage.setItem('access_token', accessToken)
-        console.log('✅ Token refreshed successfully')
-      } catch (error) {
-        console.error('❌ Failed to refresh token:', error)
-        return
-      }
-    }
-
-    console.log('✅ User and token available, connecting...')
-
-    try {
-      // Close existing connection if any
-      if (wsRef.current) {
-        wsRef.current.close()
-        wsRef.current = null
-      }
-
-      // Connect to WebSocket
-      const wsUrl = API_BASE_URL.replace('http://', 'ws://').replace('https://', 'wss://')
-      const wsEndpoint = `${wsUrl}/api/v1/ws/${user.id}?token=${encodeURIComponent(accessToken)}`
-      console.log('🔌 Attempting WebSocket connection:', {
-        endpoint: `${wsUrl}/api/v1/ws/${user.id}?token=***`,
-        userId: user.id,
-        hasToken: !!accessToken,
-        tokenLength: accessToken.length,
-      })
-      const ws = new WebSocket(wsEndpoint)
-
-      ws.onopen = () => {
-        console.log('✅ WebSocket connected for user:', user.id)
-        setIsConnected(true)
-        reconnectAttemptsRef.current = 0
-        // Clear any pending reconnection
-        if (reconnectTimeoutRef.current !== undefined) {
-          clearTimeout(reconnectTimeoutRef.current)
-          reconnectTimeoutRef.current = undefined
-        }
-
-        // Start heartbeat
-        const heartbeatInterval = setInterval(() => {
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ type: 'ping' }))
-            console.log('💓 Heartbeat sent')
-          } else {
-            clearInterval(heartbeatInterval)
-          }
-        }, 30000) // Send ping every 30 seconds
-
-        // Store interval ID for cleanup
-        ;(ws as any).heartbeatInterval = heartbeatInterval
-      }
-
-      ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data)
-          console.log('📨 WebSocket message received:', data.type, data)
-
-          if (data.type === 'message') {
-            // Transform WebSocket message to Message type
-            const message: Message = {
-              id: data.id,
-              content: data.content,
-              sender_id: data.sender_id,
-              receiver_id: data.receiver_id,
-              group_id: data.group_id,
-              media_url: data.media_url,
-              media_type: data.media_type,
-              is_read: data.is_read ?? false, // Use backend value or default to false
-              created_at: data.created_at,
-              sender: data.sender,
-            }
-            console.log('💬 Processing message:', message.id, 'from', message.sender_id, 'to', message.receiver_id)
-            onMessageRef.current(message)
-          } else if (data.type === 'online_status' && onOnlineStatusRef.current) {
-            console.log('🟢 Online status update:', data.user_id, data.is_online)
-            onOnlineStatusRef.current(data.user_id, data.is_online)
-          } else if (data.type === 'pong') {
-            console.log('💓 Heartbeat response received')
-          } else if (data.type === 'error') {
-            console.error('❌ WebSocket error from server:', data.message)
-          }
-        } catch (error) {
-          console.error('❌ Failed to parse WebSocket message:', error, event.data)
-        }
-      }
-
-      ws.onerror = async (error) => {
-        console.error('❌ WebSocket error:', error)
-        console.error('WebSocket URL:', `${wsUrl}/api/v1/ws/${user.id}?token=${accessToken.substring(0, 20)}...`)
-        setIsConnected(false)
-        
-        // If error occurs, try to refresh token and reconnect once
-        if (reconnectAttemptsRef.current === 0) {
-          console.log('🔄 Attempting to refresh token and reconnect...')
-          try {
-            const { authService } = await import('@/services/authService')
-            const response = await authService.refreshToken()
-            const newToken = response.access_token
-            sessionStorage.setItem('access_token', newToken)
-            console.log('✅ Token refreshed, will retry connection')
-            // Reset reconnect attempts to allow one more try
-            reconnectAttemptsRef.current = -1
-          } catch (refreshError) {
-            console.error('❌ Failed to refresh token:', refreshError)
-          }
-        }
-      }
-
-      ws.onclose = (event) => {
-        console.log('🔌 WebSocket disconnected', {
-          code: event.code,
-          reason: event.reason,
-          wasClean: event.wasClean,
-        })
-        setIsConnected(false)
-
-        // Clear heartbeat interval
-        if ((ws as any).heartbeatInterval) {
-          clearInterval((ws as any).heartbeatInterval)
-        }
-
-        // Only reconnect if not a normal closure and we haven't exceeded max attempts
-        if (event.code !== 1000 && reconnectAttemptsRef.current < maxReconnectAttempts) {
-          reconnectAttemptsRef.current++
-          const delay = Math.min(3000 * reconnectAttemptsRef.current, 30000) // Exponential backoff, max 30s
-          console.log(`Reconnecting in ${delay}ms (attempt ${reconnectAttemptsRef.current}/${maxReconnectAttempts})`)
-          reconnectTimeoutRef.current = window.setTimeout(() => {
-            void connect()
-          }, delay)
-        } else if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
-          console.error('Max reconnection attempts reached')
-        }
-      }
-
-      wsRef.current = ws
-    } catch (error) {
-      console.error('Failed to connect WebSocket:', error)
-      setIsConnected(false)
-    }
-  }, [user?.id])
-
-  useEffect(() => {
-    if (user?.id) {
-      console.log('🚀 Starting WebSocket connection for user:', user.id)
-      void connect()
-    }
-    // Silently skip if user is not loaded yet (will retry when user loads)
-    // This is normal during initial render
+    const unsubscribeOnlineStatus = realtimeClient.on('online_status', (event) => {
+      onOnlineStatusRef.current?.(event.user_id, event.is_online)
+    })
 
     return () => {
-      console.log('🧹 Cleaning up WebSocket connection')
-      if (wsRef.current) {
-        // Clear heartbeat interval
-        if ((wsRef.current as any).heartbeatInterval) {
-          clearInterval((wsRef.current as any).heartbeatInterval)
-        }
-        wsRef.current.close()
-        wsRef.current = null
-      }
-      if (reconnectTimeoutRef.current !== undefined) {
-        clearTimeout(reconnectTimeoutRef.current)       
-        reconnectTimeoutRef.current = undefined
-      }
-    }
-  }, [user?.id, connect])
-
-  const sendMessage = useCallback((type: string, data: Record<string, unknown>) => {
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({ type, ...data }))
-    } else {
-      console.warn('WebSocket is not connected, cannot send message')
+      unsubscribeMessage()
+      unsubscribeOnlineStatus()
     }
   }, [])
 
+  const sendMessage = useCallback(
+    <T extends WsOutboundEventType>(type: T, payload: WsOutboundPayload<T>) =>
+      realtimeClient.send(type, payload),
+    []
+  )
+
   return { isConnected, sendMessage }
 }
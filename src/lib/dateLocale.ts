@@ -0,0 +1,21 @@
+import { format, isThisYear } from 'date-fns'
+import type { Locale } from 'date-fns'
+import { enUS, ru, uz } from 'date-fns/locale'
+
+const locales: Record<string, Locale> = {
+  en: enUS,
+  ru,
+  uz,
+}
+
+// date-fns locale matching the active i18n language
+export function getDateLocale(language: string) {
+  return locales[language.split('-')[0]] ?? enUS
+}
+
+// Long date for day separators: "5 March", with the year only when it isn't this one
+export function formatDayDate(date: Date, language: string) {
+  return format(date, isThisYear(date) ? 'd MMMM' : 'd MMMM yyyy', {
+    locale: getDateLocale(language),
+  })
+}
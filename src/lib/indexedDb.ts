@@ -0,0 +1,54 @@
+const DB_NAME = 'realtime-chat'
+const DB_VERSION = 1
+
+export const IDB_STORES = {
+  OUTBOX: 'outbox',
+} as const
+
+type StoreName = (typeof IDB_STORES)[keyof typeof IDB_STORES]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(IDB_STORES.OUTBOX)) {
+          db.createObjectStore(IDB_STORES.OUTBOX, { keyPath: 'client_id' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        // Allow a later call to try again
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function run<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  operation: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(store, mode).objectStore(store))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export const idb = {
+  getAll: <T>(store: StoreName) => run<T[]>(store, 'readonly', (s) => s.getAll()),
+
+  put: <T>(store: StoreName, value: T) => run(store, 'readwrite', (s) => s.put(value)),
+
+  delete: (store: StoreName, key: IDBValidKey) =>
+    run(store, 'readwrite', (s) => s.delete(key)),
+}
@@ -0,0 +1,192 @@
+// Small namespaced logger. Levels can be changed at runtime without a rebuild:
+//   localStorage.setItem('log_level', 'debug')        everything at debug
+//   localStorage.setItem('log_level', 'warn,realtime=debug')  one namespace louder
+//   ?log=debug in the URL                             same, for this page load
+// Tokens and emails are redacted before anything is printed or buffered.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+export interface LogEntry {
+  time: string
+  level: Exclude<LogLevel, 'silent'>
+  namespace: string
+  message: string
+  data: unknown[]
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+}
+
+// Quiet consoles in production; bug reports still get info and above from the buffer
+const DEFAULT_LEVEL: LogLevel = import.meta.env.PROD ? 'warn' : 'debug'
+const LOG_LEVEL_STORAGE_KEY = 'log_level'
+const LOG_LEVEL_URL_PARAM = 'log'
+const BUFFER_SIZE = 500
+const MAX_DEPTH = 5
+
+const SENSITIVE_KEYS = /^(access_token|refresh_token|token|password|authorization|cookie)$/i
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g
+const TOKEN_PARAM_PATTERN = /([?&](?:access_token|refresh_token|token)=)[^&\s]+/gi
+const BEARER_PATTERN = /(Bearer\s+)[\w.~+/-]+=*/gi
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g
+
+interface LevelConfig {
+  defaultLevel: LogLevel
+  namespaces: Record<string, LogLevel>
+}
+
+function isLogLevel(value: string): value is LogLevel {
+  return value in LEVELS
+}
+
+// "warn,realtime=debug" -> default warn, realtime at debug
+function parseLevelConfig(value: string | null): LevelConfig | null {
+  if (!value) return null
+
+  const config: LevelConfig = { defaultLevel: DEFAULT_LEVEL, namespaces: {} }
+  value.split(',').forEach((part) => {
+    const [first, second] = part.trim().split('=')
+    if (second === undefined) {
+      if (isLogLevel(first)) config.defaultLevel = first
+    } else if (isLogLevel(second)) {
+      config.namespaces[first] = second
+    }
+  })
+  return config
+}
+
+function readInitialConfig(): LevelConfig {
+  try {
+    const fromUrl = new URLSearchParams(window.location.search).get(LOG_LEVEL_URL_PARAM)
+    const fromStorage = localStorage.getItem(LOG_LEVEL_STORAGE_KEY)
+    return (
+      parseLevelConfig(fromUrl) ??
+      parseLevelConfig(fromStorage) ?? { defaultLevel: DEFAULT_LEVEL, namespaces: {} }
+    )
+  } catch {
+    // Storage can be unavailable (privacy mode, sandboxed iframes)
+    return { defaultLevel: DEFAULT_LEVEL, namespaces: {} }
+  }
+}
+
+let levelConfig = readInitialConfig()
+const buffer: LogEntry[] = []
+
+export function redactString(value: string) {
+  return value
+    .replace(TOKEN_PARAM_PATTERN, '$1[redacted]')
+    .replace(BEARER_PATTERN, '$1[redacted]')
+    .replace(JWT_PATTERN, '[redacted-token]')
+    .replace(EMAIL_PATTERN, '[redacted-email]')
+}
+
+// Deep copy with secrets masked, safe to print or keep in the buffer
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactString(value)
+  if (value === null || typeof value !== 'object') return value
+  if (depth >= MAX_DEPTH) return '[truncated]'
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      stack: value.stack ? redactString(value.stack) : undefined,
+    }
+  }
+  if (typeof Event !== 'undefined' && value instanceof Event) {
+    return { type: value.type }
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1))
+  }
+
+  const result: Record<string, unknown> = {}
+  Object.entries(value).forEach(([key, item]) => {
+    result[key] = SENSITIVE_KEYS.test(key) ? '[redacted]' : redact(item, depth + 1)
+  })
+  return result
+}
+
+function thresholdFor(namespace: string) {
+  return LEVELS[levelConfig.namespaces[namespace] ?? levelConfig.defaultLevel]
+}
+
+function write(level: LogEntry['level'], namespace: string, message: string, data: unknown[]) {
+  const threshold = thresholdFor(namespace)
+  // Keep info and above for bug reports even when the console is quieter
+  if (LEVELS[level] < Math.min(threshold, LEVELS.info)) return
+
+  const entry: LogEntry = {
+    time: new Date().toISOString(),
+    level,
+    namespace,
+    message: redactString(message),
+    data: data.map((item) => redact(item)),
+  }
+  buffer.push(entry)
+  if (buffer.length > BUFFER_SIZE) {
+    buffer.shift()
+  }
+
+  if (LEVELS[level] < threshold) return
+  const print = level === 'debug' ? console.debug : console[level]
+  print(`[${namespace}] ${entry.message}`, ...entry.data)
+}
+
+export function createLogger(namespace: string) {
+  return {
+    debug: (message: string, ...data: unknown[]) => write('debug', namespace, message, data),
+    info: (message: string, ...data: unknown[]) => write('info', namespace, message, data),
+    warn: (message: string, ...data: unknown[]) => write('warn', namespace, message, data),
+    error: (message: string, ...data: unknown[]) => write('error', namespace, message, data),
+  }
+}
+
+export type Logger = ReturnType<typeof createLogger>
+
+// Accepts the same format as the log_level storage key; persists unless told not to
+export function setLogLevel(value: string, persist = true) {
+  const config = parseLevelConfig(value)
+  if (!config) return
+  levelConfig = config
+  if (persist) {
+    try {
+      localStorage.setItem(LOG_LEVEL_STORAGE_KEY, value)
+    } catch {
+      // Ignore storage errors; the level still applies to this page
+    }
+  }
+}
+
+export function getLogEntries(): readonly LogEntry[] {
+  return buffer
+}
+
+export function exportLogs() {
+  return JSON.stringify(
+    {
+      exported_at: new Date().toISOString(),
+      user_agent: navigator.userAgent,
+      url: redactString(window.location.href),
+      entries: buffer,
+    },
+    null,
+    2
+  )
+}
+
+// Saves the recent entries as a file to attach to a bug report
+export function downloadLogs() {
+  const blob = new Blob([exportLogs()], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `chat-logs-${new Date().toISOString().replace(/[:.]/g, '-')}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
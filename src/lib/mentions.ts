@@ -0,0 +1,87 @@
+import type { Message, MessageMention, User } from '@/types'
+
+// A mention ends at the first character that can't be part of a username
+const USERNAME_CHAR = /[\p{L}\p{N}_]/u
+// "@" at the start or after whitespace, followed by what's been typed of a username
+const MENTION_QUERY_PATTERN = /(?:^|\s)@([\p{L}\p{N}_]{0,32})$/u
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// The @mention being typed right before the caret, if any. `start` is the index of the "@".
+export function getMentionQuery(text: string, caret: number) {
+  const match = MENTION_QUERY_PATTERN.exec(text.slice(0, caret))
+  if (!match) return null
+  return { start: caret - match[1].length - 1, query: match[1] }
+}
+
+export function matchesMentionQuery(user: User, query: string) {
+  const prefix = query.toLowerCase()
+  return [user.username, user.first_name, user.last_name].some((name) =>
+    name?.toLowerCase().startsWith(prefix)
+  )
+}
+
+// Replaces the typed "@que" between start and caret with the full "@username" and puts
+// the caret after the space that follows it
+export function insertMention(text: string, start: number, caret: number, username: string) {
+  const mention = `@${username}`
+  const rest = text.slice(caret)
+  const separator = /^\s/.test(rest) ? '' : ' '
+  return {
+    text: text.slice(0, start) + mention + separator + rest,
+    caret: start + mention.length + 1,
+  }
+}
+
+// Entities for every "@username" of the given people found in the text, in text order.
+// Text that was edited after picking someone simply stops being a mention.
+export function getMentionEntities(text: string, users: User[]): MessageMention[] {
+  const mentions: MessageMention[] = []
+  const seen = new Set<string>()
+  for (const user of users) {
+    if (!user.username || seen.has(user.id)) continue
+    seen.add(user.id)
+
+    const token = `@${user.username}`
+    let index = text.indexOf(token)
+    while (index !== -1) {
+      const end = index + token.length
+      const before = text[index - 1]
+      const after = text[end]
+      if ((!before || !USERNAME_CHAR.test(before)) && (!after || !USERNAME_CHAR.test(after))) {
+        mentions.push({ user_id: user.id, offset: index, length: token.length, user })
+      }
+      index = text.indexOf(token, end)
+    }
+  }
+  return mentions.sort((a, b) => a.offset - b.offset)
+}
+
+// Pattern over the texts of a message's mentions ("@alice"), with one capture group so
+// String.split keeps them at odd indices, plus the mention each text stands for.
+// Entities whose range no longer holds an @mention (e.g. after an edit) are skipped.
+export function getMentionLookup(content: string, mentions?: MessageMention[]) {
+  const byText = new Map<string, MessageMention>()
+  for (const mention of mentions ?? []) {
+    const text = content.slice(mention.offset, mention.offset + mention.length)
+    if (text.length > 1 && text.startsWith('@')) {
+      byText.set(text, mention)
+    }
+  }
+  if (byText.size === 0) return null
+
+  // Longest first, so "@alice" isn't cut short by "@al"
+  const alternatives = [...byText.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp)
+  return {
+    pattern: new RegExp(`(?<![\\p{L}\\p{N}_])(${alternatives.join('|')})(?![\\p{L}\\p{N}_])`, 'u'),
+    byText,
+  }
+}
+
+export type MentionLookup = NonNullable<ReturnType<typeof getMentionLookup>>
+
+export function mentionsUser(message: Message, userId?: string) {
+  return !!userId && !!message.mentions?.some((mention) => mention.user_id === userId)
+}
@@ -0,0 +1,182 @@
+import { isSameDay } from 'date-fns'
+import type { Message, MessageForwardSource, MessageReaction, MessageReplyPreview, User } from '@/types'
+
+// What remains of a message after its sender deleted it for everyone
+export function toDeletedMessage(message: Message, deletedAt: string): Message {
+  return {
+    ...message,
+    content: '',
+    media_url: undefined,
+    media_type: undefined,
+    deleted_at: deletedAt,
+  }
+}
+
+export function toReplyPreview(message: Message): MessageReplyPreview {
+  return {
+    id: message.id,
+    sender_id: message.sender_id,
+    content: message.content,
+    media_type: message.media_type,
+    deleted_at: message.deleted_at,
+    sender: message.sender,
+  }
+}
+
+// Forwarding a forwarded message keeps pointing at the original author
+export function toForwardSource(message: Message, sender?: User): MessageForwardSource {
+  return (
+    message.forwarded_from ?? {
+      message_id: message.id,
+      sender_id: message.sender_id,
+      sender: message.sender ?? sender,
+    }
+  )
+}
+
+// Applies an edit to the message itself and to quotes of it in replies
+export function applyMessageUpdate(messages: Message[], updated: Message): Message[] {
+  return messages.map((m) => {
+    if (m.id === updated.id) return { ...m, ...updated }
+    if (m.reply_to?.id === updated.id) {
+      return { ...m, reply_to: { ...m.reply_to, content: updated.content } }
+    }
+    return m
+  })
+}
+
+export function applyMessageDeletion(
+  messages: Message[],
+  messageId: string,
+  forEveryone: boolean,
+  deletedAt: string
+): Message[] {
+  if (!forEveryone) {
+    return messages.filter((m) => m.id !== messageId)
+  }
+  return messages.map((m) => {
+    if (m.id === messageId) return toDeletedMessage(m, deletedAt)
+    if (m.reply_to?.id === messageId) {
+      return { ...m, reply_to: { ...m.reply_to, content: '', deleted_at: deletedAt } }
+    }
+    return m
+  })
+}
+
+// Adds or removes one user's reaction; applying the same change twice is a no-op
+export function applyReaction(
+  messages: Message[],
+  messageId: string,
+  userId: string,
+  emoji: string,
+  added: boolean
+): Message[] {
+  return messages.map((m) => {
+    if (m.id !== messageId) return m
+
+    const reactions = m.reactions ?? []
+    const existing = reactions.find((reaction) => reaction.emoji === emoji)
+    if (added === !!existing?.user_ids.includes(userId)) return m
+
+    let next: MessageReaction[]
+    if (added) {
+      next = existing
+        ? reactions.map((reaction) =>
+            reaction === existing
+              ? { ...reaction, user_ids: [...reaction.user_ids, userId] }
+              : reaction
+          )
+        : [...reactions, { emoji, user_ids: [userId] }]
+    } else {
+      next = reactions
+        .map((reaction) =>
+          reaction === existing
+            ? { ...reaction, user_ids: reaction.user_ids.filter((id) => id !== userId) }
+            : reaction
+        )
+        .filter((reaction) => reaction.user_ids.length > 0)
+    }
+    return { ...m, reactions: next }
+  })
+}
+
+// Inserts by created_at without re-sorting; new messages almost always land at the end
+export function insertMessageSorted(messages: Message[], message: Message): Message[] {
+  const time = Date.parse(message.created_at)
+  let low = 0
+  let high = messages.length
+  while (low < high) {
+    const mid = (low + high) >>> 1
+    if (Date.parse(messages[mid].created_at) <= time) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  return [...messages.slice(0, low), message, ...messages.slice(low)]
+}
+
+// Whether the message belongs to the one-to-one conversation between the two users
+export function isInConversation(message: Message, currentUserId: string, peerId: string) {
+  return (
+    (message.sender_id === currentUserId && message.receiver_id === peerId) ||
+    (message.sender_id === peerId && message.receiver_id === currentUserId)
+  )
+}
+
+// Search hits bucketed by conversation, in the order each conversation first appears
+export function groupMessagesByChat(messages: Message[], currentUserId: string) {
+  const groups = new Map<string, Message[]>()
+  for (const message of messages) {
+    const chatId = message.sender_id === currentUserId ? message.receiver_id : message.sender_id
+    if (!chatId) continue
+    const group = groups.get(chatId)
+    if (group) {
+      group.push(message)
+    } else {
+      groups.set(chatId, [message])
+    }
+  }
+  return [...groups].map(([chatId, chatMessages]) => ({ chatId, messages: chatMessages }))
+}
+
+// Sets or clears pinned_at on one message
+export function applyPin(messages: Message[], messageId: string, pinnedAt?: string): Message[] {
+  return messages.map((m) => (m.id === messageId ? { ...m, pinned_at: pinnedAt } : m))
+}
+
+// Adds a message to a pinned list kept in chat order, replacing an older copy of it
+export function addPinnedMessage(pinned: Message[], message: Message): Message[] {
+  return insertMessageSorted(
+    pinned.filter((m) => m.id !== message.id),
+    message
+  )
+}
+
+// Consecutive messages from one sender closer together than this share a group
+const GROUP_WINDOW = 5 * 60 * 1000
+
+export interface MessageLayout {
+  // First message of its day; a day separator goes above it
+  startsDay: boolean
+  // First of a run from the same sender; shows the name and gets the larger gap
+  startsGroup: boolean
+  // Last of the run; shows the avatar
+  endsGroup: boolean
+}
+
+export function getMessageLayout(messages: Message[]): MessageLayout[] {
+  const times = messages.map((m) => Date.parse(m.created_at))
+  const continuesGroup = (index: number) =>
+    index > 0 &&
+    index < messages.length &&
+    messages[index - 1].sender_id === messages[index].sender_id &&
+    isSameDay(times[index - 1], times[index]) &&
+    times[index] - times[index - 1] < GROUP_WINDOW
+
+  return messages.map((_, index) => ({
+    startsDay: index === 0 || !isSameDay(times[index - 1], times[index]),
+    startsGroup: !continuesGroup(index),
+    endsGroup: !continuesGroup(index + 1),
+  }))
+}
@@ -0,0 +1,226 @@
+// A deliberately small markdown subset for message text: **bold**, *italic* / _italic_,
+// `inline code`, ``` fenced code blocks ```, "> " quotes and bare URLs as links.
+// The result is a tree rendered as React elements, never as HTML, so message text
+// can't inject markup; links are additionally limited to safe schemes.
+
+export type RichInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: RichInline[] }
+  | { type: 'italic'; children: RichInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; text: string }
+
+export type RichBlock =
+  | { type: 'paragraph'; children: RichInline[] }
+  | { type: 'quote'; children: RichInline[] }
+  | { type: 'code_block'; language?: string; code: string }
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:']
+
+const FENCE_PATTERN = /^```\s*([\w+-]*)\s*$/
+const QUOTE_PATTERN = /^>\s?/
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi
+const TRAILING_PUNCTUATION = /[.,;:!?'"*]+$/
+// Order matters: code spans win over URLs, and URLs over emphasis markers inside them
+const INLINE_PATTERN =
+  /`([^`\n]+)`|(\b(?:https?:\/\/|www\.)[^\s<>"]+)|\*\*(?=\S)(.+?)(?<=\S)\*\*|(?<![\w*])\*(?=\S)([^*\n]+?)(?<=\S)\*(?![\w*])|(?<![\w_])_(?=\S)([^_\n]+?)(?<=\S)_(?![\w_])/
+
+// Returns a normalized href for http(s)/mailto URLs and null for anything else
+// (javascript:, data:, vbscript:, relative paths, ...)
+export function getSafeHref(url: string) {
+  const candidate = /^www\./i.test(url) ? `https://${url}` : url
+  try {
+    const parsed = new URL(candidate)
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null
+  } catch {
+    return null
+  }
+}
+
+// Drops trailing punctuation and an unbalanced closing paren: "(see https://a.b/c)."
+function trimUrl(url: string) {
+  let trimmed = url.replace(TRAILING_PUNCTUATION, '')
+  while (trimmed.endsWith(')') && (trimmed.match(/\(/g)?.length ?? 0) < (trimmed.match(/\)/g)?.length ?? 0)) {
+    trimmed = trimmed.slice(0, -1).replace(TRAILING_PUNCTUATION, '')
+  }
+  return trimmed
+}
+
+function linkify(text: string): RichInline[] {
+  const nodes: RichInline[] = []
+  let lastIndex = 0
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const url = trimUrl(match[0])
+    const href = getSafeHref(url)
+    if (!href) continue
+
+    if (match.index > lastIndex) {
+      nodes.push({ type: 'text', text: text.slice(lastIndex, match.index) })
+    }
+    nodes.push({ type: 'link', href, text: url })
+    lastIndex = match.index + url.length
+  }
+  if (lastIndex < text.length) {
+    nodes.push({ type: 'text', text: text.slice(lastIndex) })
+  }
+  return nodes
+}
+
+export function parseInline(text: string): RichInline[] {
+  const nodes: RichInline[] = []
+  let rest = text
+  let match = INLINE_PATTERN.exec(rest)
+  while (match) {
+    if (match.index > 0) {
+      nodes.push(...linkify(rest.slice(0, match.index)))
+    }
+    const [, code, url, bold, starItalic, underscoreItalic] = match
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code })
+    } else if (url !== undefined) {
+      nodes.push(...linkify(url))
+    } else if (bold !== undefined) {
+      nodes.push({ type: 'bold', children: parseInline(bold) })
+    } else {
+      nodes.push({ type: 'italic', children: parseInline(starItalic ?? underscoreItalic) })
+    }
+    rest = rest.slice(match.index + match[0].length)
+    match = INLINE_PATTERN.exec(rest)
+  }
+  if (rest) {
+    nodes.push(...linkify(rest))
+  }
+  return nodes
+}
+
+export function parseRichText(content: string): RichBlock[] {
+  const blocks: RichBlock[] = []
+  const lines = content.split('\n')
+  let paragraph: string[] = []
+  let quote: string[] = []
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) })
+      paragraph = []
+    }
+    if (quote.length > 0) {
+      blocks.push({ type: 'quote', children: parseInline(quote.join('\n')) })
+      quote = []
+    }
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    const fence = FENCE_PATTERN.exec(line)
+    if (fence) {
+      flush()
+      const code: string[] = []
+      i++
+      // An unclosed fence runs to the end of the message
+      while (i < lines.length && !/^```\s*$/.test(lines[i])) {
+        code.push(lines[i])
+        i++
+      }
+      blocks.push({ type: 'code_block', language: fence[1] || undefined, code: code.join('\n') })
+    } else if (QUOTE_PATTERN.test(line)) {
+      if (paragraph.length > 0) flush()
+      quote.push(line.replace(QUOTE_PATTERN, ''))
+    } else {
+      if (quote.length > 0) flush()
+      paragraph.push(line)
+    }
+  }
+  flush()
+  return blocks
+}
+
+function findLink(nodes: RichInline[]): string | undefined {
+  for (const node of nodes) {
+    if (node.type === 'link') return node.href
+    if (node.type === 'bold' || node.type === 'italic') {
+      const href = findLink(node.children)
+      if (href) return href
+    }
+  }
+  return undefined
+}
+
+// First linkified URL outside code, the one a link preview is shown for
+export function getFirstLinkUrl(content: string) {
+  for (const block of parseRichText(content)) {
+    if (block.type === 'code_block') continue
+    const href = findLink(block.children)
+    if (href) return href
+  }
+  return undefined
+}
+
+function inlineToPlainText(nodes: RichInline[]): string {
+  return nodes
+    .map((node) =>
+      node.type === 'bold' || node.type === 'italic' ? inlineToPlainText(node.children) : node.text
+    )
+    .join('')
+}
+
+// Single-line text without markup, for previews such as the chat list
+export function toPlainText(content: string) {
+  return parseRichText(content)
+    .map((block) =>
+      block.type === 'code_block' ? block.code : inlineToPlainText(block.children)
+    )
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Case-insensitive pattern matching any whitespace-separated term of a search query,
+// with one capture group so String.split keeps the matches at odd indices
+export function getHighlightPattern(query: string) {
+  const terms = query
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  return terms.length > 0 ? new RegExp(`(${terms.join('|')})`, 'gi') : null
+}
+
+// Plain text cut down to the part around the first search match, for result lists
+export function getSnippet(content: string, query: string, radius = 40) {
+  const text = toPlainText(content)
+  const pattern = getHighlightPattern(query)
+  const matchIndex = pattern ? text.search(pattern) : -1
+  if (matchIndex <= radius) {
+    return text.length > radius * 2 ? `${text.slice(0, radius * 2)}…` : text
+  }
+  const start = matchIndex - radius
+  const end = matchIndex + radius
+  return `…${text.slice(start, end)}${end < text.length ? '…' : ''}`
+}
+
+// Wraps the selection in a markdown marker, or unwraps it if it's already wrapped.
+// Without a selection the markers are inserted with the caret between them.
+export function toggleFormatting(
+  text: string,
+  selectionStart: number,
+  selectionEnd: number,
+  marker: string
+) {
+  const before = text.slice(0, selectionStart)
+  const selected = text.slice(selectionStart, selectionEnd)
+  const after = text.slice(selectionEnd)
+
+  if (before.endsWith(marker) && after.startsWith(marker)) {
+    return {
+      text: before.slice(0, -marker.length) + selected + after.slice(marker.length),
+      selectionStart: selectionStart - marker.length,
+      selectionEnd: selectionEnd - marker.length,
+    }
+  }
+  return {
+    text: before + marker + selected + marker + after,
+    selectionStart: selectionStart + marker.length,
+    selectionEnd: selectionEnd + marker.length,
+  }
+}
@@ -1,13 +1,19 @@
 import { useState, useEffect } from 'react'
 import { Sidebar } from '@/components/chat/Sidebar'
-import { ChatWindow } from '@/components/chat/ChatWindow'
+import { ChatWindow, type FocusMessageRequest } from '@/components/chat/ChatWindow'
+import { ConnectionBanner } from '@/components/chat/ConnectionBanner'
 import { Header } from '@/components/layout/Header'
 import api from '@/services/api'
+import { createLogger } from '@/lib/logger'
 import type { User, Message } from '@/types'
 
+const log = createLogger('chat')
+
 export function ChatPage() {
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null)
   const [selectedUser, setSelectedUser] = useState<User | null>(null)
+  // Message to open the chat at, picked from the sidebar's message search
+  const [focusMessage, setFocusMessage] = useState<FocusMessageRequest | null>(null)
 
   useEffect(() => {
     if (selectedUserId) {
@@ -22,11 +28,17 @@ export function ChatPage() {
       const response = await api.get<User>(`/api/v1/users/${userId}`)
       setSelectedUser(response.data)
     } catch (error) {
-      console.error('Failed to load user:', error)
+      log.error('Failed to load user', error)
       setSelectedUser(null)
     }
   }
 
+  const handleSelectUser = (userId: string, messageId?: string) => {
+    setSelectedUserId(userId)
+    // A new object each time, so picking the same hit again jumps again
+    setFocusMessage(messageId ? { userId, messageId } : null)
+  }
+
   const handleMessageSent = (message: Message) => {
     // This will trigger sidebar update via WebSocket
   }
@@ -34,15 +46,18 @@ export function ChatPage() {
   return (
     <div className="h-screen flex flex-col bg-background">
       <Header />
+      <ConnectionBanner />
       <div className="flex-1 flex overflow-hidden">
         <div className="w-80 flex-shrink-0 border-r bg-background">
-          <Sidebar selectedUserId={selectedUserId} onSelectUser={setSelectedUserId} />
+          <Sidebar selectedUserId={selectedUserId} onSelectUser={handleSelectUser} />
         </div>
         <div className="flex-1 flex flex-col bg-background">
           <ChatWindow
             userId={selectedUserId}
             user={selectedUser || undefined}
+            focusMessage={focusMessage}
             onMessageSent={handleMessageSent}
+            onOpenChat={handleSelectUser}
           />
         </div>
       </div>
@@ -13,7 +13,17 @@ import { useAuth } from '@/hooks/useAuth'
 import { authService } from '@/services/authService'
 import { toast } from 'sonner'
 import { updateUser } from '@/store/slices/authSlice'
-import { useAppDispatch } from '@/store/hooks'
+import { setSendShortcut } from '@/store/slices/composerSettingsSlice'
+import { useAppDispatch, useAppSelector } from '@/store/hooks'
+import { createLogger } from '@/lib/logger'
+import type { SendShortcut } from '@/types'
+
+const log = createLogger('profile')
+
+const SEND_SHORTCUTS: { value: SendShortcut; labelKey: string }[] = [
+  { value: 'enter', labelKey: 'profile.sendWithEnter' },
+  { value: 'ctrl_enter', labelKey: 'profile.sendWithCtrlEnter' },
+]
 
 const profileSchema = z.object({
   username: z.string().min(3, 'Username must be at least 3 characters').max(50, 'Username must be at most 50 characters'),
@@ -29,6 +39,7 @@ export const ProfileSettingsPage = () => {
   const navigate = useNavigate()
   const dispatch = useAppDispatch()
   const { user, refreshUser } = useAuth()
+  const sendShortcut = useAppSelector((state) => state.composerSettings.sendShortcut)
   const {
     register,
     handleSubmit,
@@ -67,7 +78,7 @@ export const ProfileSettingsPage = () => {
       await refreshUser()
       toast.success(t('profile.updateSuccess'))
     } catch (error) {
-      console.error('Failed to update profile:', error)
+      log.error('Failed to update profile', error)
       toast.error(t('profile.updateError'))
     }
   }
@@ -181,6 +192,28 @@ export const ProfileSettingsPage = () => {
             </form>
           </CardContent>
         </Card>
+
+        <Card className="mt-4">
+          <CardHeader>
+            <CardTitle>{t('profile.chatSettings')}</CardTitle>
+            <CardDescription>{t('profile.chatSettingsDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {SEND_SHORTCUTS.map(({ value, labelKey }) => (
+              <label key={value} className="flex items-center gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="send-shortcut"
+                  value={value}
+                  checked={sendShortcut === value}
+                  onChange={() => dispatch(setSendShortcut(value))}
+                  className="h-4 w-4 accent-primary"
+                />
+                {t(labelKey)}
+              </label>
+            ))}
+          </CardContent>
+        </Card>
       </div>
     </div>
   )
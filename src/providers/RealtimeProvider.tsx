@@ -0,0 +1,101 @@
+import { useEffect } from 'react'
+import { useAppDispatch, useAppSelector } from '@/store/hooks'
+import { realtimeClient } from '@/services/realtimeClient'
+import { outbox } from '@/services/outbox'
+import { chatService } from '@/services/chatService'
+import { clearTyping, setUserTyping } from '@/store/slices/typingSlice'
+import { loadDrafts, unloadDrafts } from '@/store/slices/draftsSlice'
+import { createLogger } from '@/lib/logger'
+import { clearPresence, setPresenceSnapshot, updatePresence } from '@/store/slices/presenceSlice'
+
+const log = createLogger('realtime')
+
+// Hide the typing indicator if the stop event never arrives
+const TYPING_EXPIRY = 6000
+
+// Opens the shared WebSocket, the outbox and drafts once the user is loaded and closes them on logout
+export function RealtimeProvider({ children }: { children: React.ReactNode }) {
+  const dispatch = useAppDispatch()
+  const userId = useAppSelector((state) => state.auth.user?.id)
+
+  useEffect(() => {
+    if (!userId) return
+
+    realtimeClient.connect(userId)
+    void outbox.start(userId)
+    dispatch(loadDrafts(userId))
+    return () => {
+      dispatch(unloadDrafts())
+      outbox.stop()
+      realtimeClient.disconnect()
+    }
+  }, [dispatch, userId])
+
+  // Seed presence from a snapshot on every (re)connect, then follow online_status events
+  useEffect(() => {
+    let wasOnline = false
+    const unsubscribeStatus = realtimeClient.subscribeStatus(() => {
+      const isOnline = realtimeClient.getIsConnected()
+      if (isOnline && !wasOnline) {
+        chatService
+          .getPresenceSnapshot()
+          .then((snapshot) => dispatch(setPresenceSnapshot(snapshot)))
+          .catch((error) => log.error('Failed to load presence snapshot', error))
+      }
+      wasOnline = isOnline
+    })
+    const unsubscribeOnlineStatus = realtimeClient.on('online_status', (event) => {
+      dispatch(
+        updatePresence({
+          user_id: event.user_id,
+          is_online: event.is_online,
+          last_seen: event.last_seen,
+        })
+      )
+    })
+
+    return () => {
+      unsubscribeStatus()
+      unsubscribeOnlineStatus()
+      dispatch(clearPresence())
+    }
+  }, [dispatch])
+
+  // Mirror typing events into the store
+  useEffect(() => {
+    const expiryTimeouts = new Map<string, number>()
+
+    const setTyping = (typingUserId: string, isTyping: boolean) => {
+      const timeout = expiryTimeouts.get(typingUserId)
+      if (timeout !== undefined) {
+        clearTimeout(timeout)
+        expiryTimeouts.delete(typingUserId)
+      }
+      dispatch(setUserTyping({ userId: typingUserId, isTyping }))
+
+      if (isTyping) {
+        expiryTimeouts.set(
+          typingUserId,
+          window.setTimeout(() => setTyping(typingUserId, false), TYPING_EXPIRY)
+        )
+      }
+    }
+
+    const unsubscribeTyping = realtimeClient.on('typing', (event) => {
+      setTyping(event.user_id, event.is_typing)
+    })
+    // A delivered message ends the sender's typing
+    const unsubscribeMessage = realtimeClient.on('message', (event) => {
+      setTyping(event.sender_id, false)
+    })
+
+    return () => {
+      unsubscribeTyping()
+      unsubscribeMessage()
+      expiryTimeouts.forEach((timeout) => clearTimeout(timeout))
+      dispatch(clearTyping())
+    }
+  }, [dispatch])
+
+  return <>{children}</>
+}
@@ -1,5 +1,5 @@
 import api from './api'
-import type { User, Message } from '@/types'
+import type { User, Message, MessageMention, Presence, LinkPreview } from '@/types'
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://127.0.0.1:8000'
 
@@ -8,9 +8,30 @@ export interface ChatContact {
   user: User
   lastMessage?: Message
   unreadCount: number
+  // Unread messages that mention the current user
+  unreadMentionCount: number
 }
 
+export interface MessageSearchFilters {
+  // Limits the search to the conversation with this user
+  receiverId?: string
+  senderId?: string
+  // Inclusive calendar dates, YYYY-MM-DD
+  fromDate?: string
+  toDate?: string
+  hasMedia?: boolean
+}
+
+// The server resolves the mentioned users itself
+const toMentionPayload = (mentions?: MessageMention[]) =>
+  mentions?.map(({ user_id, offset, length }) => ({ user_id, offset, length }))
+
 export const chatService = {
+  getUser: async (userId: string): Promise<User> => {
+    const response = await api.get<User>(`/api/v1/users/${userId}`)
+    return response.data
+  },
+
   searchUsers: async (query: string): Promise<User[]> => {
     const response = await api.get<{ users: User[]; total: number }>(
       `/api/v1/users/search?query=${encodeURIComponent(query)}`
@@ -18,6 +39,12 @@ export const chatService = {
     return response.data.users
   },
 
+  // Online state and last seen time of everyone we have a conversation with
+  getPresenceSnapshot: async (): Promise<Presence[]> => {
+    const response = await api.get<Presence[]>('/api/v1/users/presence')
+    return response.data
+  },
+
   getContacts: async (): Promise<ChatContact[]> => {
     const response = await api.get<ChatContact[]>('/api/v1/contacts')
     return response.data
@@ -29,6 +56,7 @@ export const chatService = {
       user: User
       last_message?: Message
       unread_count: number
+      unread_mention_count?: number
       is_contact: boolean
     }>>('/api/v1/contacts/chats')
     
@@ -38,14 +66,44 @@ export const chatService = {
       user: item.user,
       lastMessage: item.last_message,
       unreadCount: item.unread_count || 0,
+      unreadMentionCount: item.unread_mention_count || 0,
     }))
   },
 
-  getMessages: async (receiverId?: string, limit = 50, offset = 0): Promise<Message[]> => {
+  // Newest first. Pass the id of the oldest loaded message as `before` to page back
+  // through history without shifting when new messages arrive in the meantime.
+  getMessages: async (receiverId?: string, limit = 50, before?: string): Promise<Message[]> => {
     const params = new URLSearchParams()
     if (receiverId) params.append('receiver_id', receiverId)
     params.append('limit', limit.toString())
-    params.append('offset', offset.toString())
+    if (before) params.append('before', before)
+
+    const response = await api.get<Message[]>(`/api/v1/messages?${params.toString()}`)
+    return response.data
+  },
+
+  // The message with up to `limit` of its neighbours, newest first; without the
+  // message itself if it's not (or no longer) in this conversation
+  getMessagesAround: async (receiverId: string, messageId: string, limit = 50): Promise<Message[]> => {
+    const response = await api.get<Message[]>('/api/v1/messages', {
+      params: { receiver_id: receiverId, around: messageId, limit },
+    })
+    return response.data
+  },
+
+  // Messages newer than `after` in the conversation, oldest first
+  getMessagesAfter: async (receiverId: string, after: string, limit = 50): Promise<Message[]> => {
+    const response = await api.get<Message[]>('/api/v1/messages', {
+      params: { receiver_id: receiverId, after, limit },
+    })
+    return response.data
+  },
+
+  // Messages across all conversations created after the given timestamp
+  getMessagesSince: async (since: string, limit = 200): Promise<Message[]> => {
+    const params = new URLSearchParams()
+    params.append('since', since)
+    params.append('limit', limit.toString())
 
     const response = await api.get<Message[]>(`/api/v1/messages?${params.toString()}`)
     return response.data
@@ -54,20 +112,104 @@ export const chatService = {
   sendMessage: async (
     content: string,
     receiverId?: string,
-    groupId?: string
+    groupId?: string,
+    clientId?: string,
+    replyToId?: string,
+    linkPreviewDisabled?: boolean,
+    forwardedFromId?: string,
+    mentions?: MessageMention[]
   ): Promise<Message> => {
     const response = await api.post<Message>('/api/v1/messages', {
       content,
       receiver_id: receiverId,
       group_id: groupId,
+      client_id: clientId,
+      reply_to_id: replyToId,
+      link_preview_disabled: linkPreviewDisabled || undefined,
+      forwarded_from_id: forwardedFromId,
+      mentions: toMentionPayload(mentions),
+    })
+    return response.data
+  },
+
+  // Mentions replace the message's previous ones
+  editMessage: async (messageId: string, content: string, mentions?: MessageMention[]): Promise<Message> => {
+    const response = await api.patch<Message>(`/api/v1/messages/${messageId}`, {
+      content,
+      mentions: toMentionPayload(mentions),
     })
     return response.data
   },
 
+  // Without forEveryone the message is only hidden for the current user
+  deleteMessage: async (messageId: string, forEveryone = false): Promise<void> => {
+    await api.delete(`/api/v1/messages/${messageId}`, {
+      params: { for_everyone: forEveryone },
+    })
+  },
+
+  addReaction: async (messageId: string, emoji: string): Promise<void> => {
+    await api.post(`/api/v1/messages/${messageId}/reactions`, { emoji })
+  },
+
+  removeReaction: async (messageId: string, emoji: string): Promise<void> => {
+    await api.delete(`/api/v1/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`)
+  },
+
+  // Metadata is fetched server-side so the browser never loads third-party pages
+  unfurlLink: async (url: string): Promise<LinkPreview> => {
+    const response = await api.get<LinkPreview>('/api/v1/unfurl', { params: { url } })
+    return response.data
+  },
+
+  // Messages matching the query and filters across our conversations, newest first
+  searchMessages: async (
+    query: string,
+    filters: MessageSearchFilters = {},
+    limit = 100
+  ): Promise<Message[]> => {
+    const params = new URLSearchParams()
+    if (query) params.append('query', query)
+    if (filters.receiverId) params.append('receiver_id', filters.receiverId)
+    if (filters.senderId) params.append('sender_id', filters.senderId)
+    if (filters.fromDate) params.append('from_date', filters.fromDate)
+    if (filters.toDate) params.append('to_date', filters.toDate)
+    if (filters.hasMedia) params.append('has_media', 'true')
+    params.append('limit', limit.toString())
+
+    const response = await api.get<Message[]>(`/api/v1/messages/search?${params.toString()}`)
+    return response.data
+  },
+
+  // Pinned messages of the conversation with receiverId, oldest first
+  getPinnedMessages: async (receiverId: string): Promise<Message[]> => {
+    const response = await api.get<Message[]>('/api/v1/messages/pinned', {
+      params: { receiver_id: receiverId },
+    })
+    return response.data
+  },
+
+  pinMessage: async (messageId: string): Promise<Message> => {
+    const response = await api.post<Message>(`/api/v1/messages/${messageId}/pin`)
+    return response.data
+  },
+
+  unpinMessage: async (messageId: string): Promise<void> => {
+    await api.delete(`/api/v1/messages/${messageId}/pin`)
+  },
+
   markAsRead: async (messageId: string): Promise<void> => {
     await api.patch(`/api/v1/messages/${messageId}/read`)
   },
 
+  // Marks every message from senderId up to and including messageId as read in one call
+  markAsReadUpTo: async (senderId: string, messageId: string): Promise<void> => {
+    await api.post('/api/v1/messages/read', {
+      sender_id: senderId,
+      up_to_message_id: messageId,
+    })
+  },
+
   addContact: async (contactId: string, nickname?: string): Promise<void> => {
     await api.post('/api/v1/contacts', {
       contact_id: contactId,
@@ -102,7 +244,12 @@ export const chatService = {
     mediaUrl: string,
     mediaType: string,
     receiverId?: string,
-    groupId?: string
+    groupId?: string,
+    clientId?: string,
+    replyToId?: string,
+    linkPreviewDisabled?: boolean,
+    forwardedFromId?: string,
+    mentions?: MessageMention[]
   ): Promise<Message> => {
     const response = await api.post<Message>('/api/v1/messages', {
       content,
@@ -110,6 +257,11 @@ export const chatService = {
       group_id: groupId,
       media_url: mediaUrl,
       media_type: mediaType,
+      client_id: clientId,
+      reply_to_id: replyToId,
+      link_preview_disabled: linkPreviewDisabled || undefined,
+      forwarded_from_id: forwardedFromId,
+      mentions: toMentionPayload(mentions),
     })
     return response.data
   },
@@ -0,0 +1,69 @@
+import { chatService } from './chatService'
+import { createLogger } from '@/lib/logger'
+import type { LinkPreview } from '@/types'
+
+const log = createLogger('linkPreviews')
+
+const MAX_ENTRIES = 200 // Oldest previews nothing shows are dropped past this many URLs
+
+// Unfurled link metadata shared by every bubble and the composer. Each URL is
+// requested once while cached; failures are cached as null (no preview).
+class LinkPreviewCache {
+  private entries = new Map<string, LinkPreview | null>()
+  private pending = new Set<string>()
+  // How many mounted cards show each URL; those are never evicted
+  private users = new Map<string, number>()
+  private listeners = new Set<() => void>()
+
+  // undefined while not loaded yet, null when the URL has no preview
+  get = (url: string) => this.entries.get(url)
+
+  async load(url: string) {
+    if (this.entries.has(url) || this.pending.has(url)) return
+
+    this.pending.add(url)
+    let preview: LinkPreview | null = null
+    try {
+      const result = await chatService.unfurlLink(url)
+      // Nothing worth showing without a title
+      preview = result.title ? result : null
+    } catch (error) {
+      log.warn('Failed to unfurl link', error)
+    } finally {
+      this.pending.delete(url)
+    }
+
+    this.entries.set(url, preview)
+    if (this.entries.size > MAX_ENTRIES) {
+      for (const cached of this.entries.keys()) {
+        if (!this.users.has(cached)) {
+          this.entries.delete(cached)
+          break
+        }
+      }
+    }
+    this.listeners.forEach((listener) => listener())
+  }
+
+  // Keeps the URL's preview cached until the returned release is called
+  retain(url: string) {
+    this.users.set(url, (this.users.get(url) ?? 0) + 1)
+    return () => {
+      const count = this.users.get(url) ?? 0
+      if (count > 1) {
+        this.users.set(url, count - 1)
+      } else {
+        this.users.delete(url)
+      }
+    }
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
+
+export const linkPreviews = new LinkPreviewCache()
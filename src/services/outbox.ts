@@ -0,0 +1,307 @@
+import axios from 'axios'
+import { chatService } from './chatService'
+import { realtimeClient } from './realtimeClient'
+import { idb, IDB_STORES } from '@/lib/indexedDb'
+import { createLogger } from '@/lib/logger'
+import type { Message, OutboxEntry } from '@/types'
+
+const log = createLogger('outbox')
+
+const RETRY_DELAY = 10000 // Retry network failures every 10 seconds
+
+type AckListener = (message: Message) => void
+
+function createClientId() {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID()
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
+
+// Network failures are retried automatically; anything the server rejected is marked failed
+function isNetworkError(error: unknown) {
+  return axios.isAxiosError(error) && !error.response
+}
+
+// Outgoing messages, persisted in IndexedDB until the server acknowledges them
+// by client id. Survives reloads and sends queued messages once back online.
+// Every tab shows the shared queue, but only the leader tab sends from it.
+class Outbox {
+  private entries: OutboxEntry[] = []
+  private userId: string | null = null
+  private flushing = false
+  private sendingClientId: string | null = null
+  // Queued in this tab but not yet written to IndexedDB
+  private unpersisted = new Set<string>()
+  // Removed here; ignored if a reload reads IndexedDB before the delete lands
+  private removed = new Set<string>()
+  private retryTimeout: number | undefined = undefined
+  private listeners = new Set<() => void>()
+  private ackListeners = new Set<AckListener>()
+  private cleanups: Array<() => void> = []
+
+  async start(userId: string) {
+    this.stop()
+    this.userId = userId
+
+    const handleOnline = () => void this.flush()
+    window.addEventListener('online', handleOnline)
+    let wasLeader = realtimeClient.getIsLeader()
+    this.cleanups.push(
+      () => window.removeEventListener('online', handleOnline),
+      realtimeClient.subscribeStatus(() => {
+        const isLeader = realtimeClient.getIsLeader()
+        if (isLeader && !wasLeader) {
+          // Took over from a closed tab; pick up whatever it left unsent
+          void this.reload()
+        } else if (realtimeClient.getIsConnected()) {
+          void this.flush()
+        }
+        wasLeader = isLeader
+      }),
+      // The socket echo may arrive before the REST response
+      realtimeClient.on('message', ({ type: _type, ...message }) => {
+        if (message.client_id) {
+          this.acknowledge(message.client_id, message)
+        }
+      }),
+      // Another tab queued, sent or discarded a message
+      realtimeClient.onTabEvent((event) => {
+        if (event.type === 'outbox_changed') {
+          void this.reload()
+        }
+      })
+    )
+
+    await this.reload()
+  }
+
+  stop() {
+    this.cleanups.forEach((cleanup) => cleanup())
+    this.cleanups = []
+    if (this.retryTimeout !== undefined) {
+      clearTimeout(this.retryTimeout)
+      this.retryTimeout = undefined
+    }
+    this.userId = null
+    this.unpersisted.clear()
+    this.removed.clear()
+    this.setEntries([])
+  }
+
+  enqueue(
+    draft: Pick<
+      OutboxEntry,
+      | 'receiver_id'
+      | 'content'
+      | 'file'
+      | 'media_url'
+      | 'media_type'
+      | 'reply_to'
+      | 'link_preview_disabled'
+      | 'forwarded_from'
+      | 'mentions'
+    >
+  ) {
+    if (!this.userId) return null
+
+    const entry: OutboxEntry = {
+      ...draft,
+      client_id: createClientId(),
+      sender_id: this.userId,
+      created_at: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+    }
+    this.setEntries([...this.entries, entry])
+    this.persist(entry)
+    void this.flush()
+    return entry
+  }
+
+  retry(clientId: string) {
+    this.update(clientId, { status: 'pending' })
+    void this.flush()
+  }
+
+  discard(clientId: string) {
+    this.remove(clientId)
+  }
+
+  onAck(listener: AckListener) {
+    this.ackListeners.add(listener)
+    return () => {
+      this.ackListeners.delete(listener)
+    }
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = () => this.entries
+
+  private async reload() {
+    const userId = this.userId
+    let stored: OutboxEntry[]
+    try {
+      stored = await idb.getAll<OutboxEntry>(IDB_STORES.OUTBOX)
+    } catch (error) {
+      log.error('Failed to load outbox', error)
+      return
+    }
+    // Logged out or switched user while loading
+    if (!userId || this.userId !== userId) return
+
+    const isLeader = realtimeClient.getIsLeader()
+    const storedIds = new Set(stored.map((entry) => entry.client_id))
+    this.setEntries(
+      [
+        ...stored
+          .filter((entry) => entry.sender_id === userId && !this.removed.has(entry.client_id))
+          .map((entry) =>
+            // Only the leader sends, so a 'sending' entry it isn't working on was
+            // left behind by a tab that closed mid-send
+            isLeader && entry.status === 'sending' && entry.client_id !== this.sendingClientId
+              ? { ...entry, status: 'pending' as const }
+              : entry
+          ),
+        ...this.entries.filter(
+          (entry) => this.unpersisted.has(entry.client_id) && !storedIds.has(entry.client_id)
+        ),
+      ].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    )
+
+    void this.flush()
+  }
+
+  private async flush() {
+    if (this.flushing || !this.userId || !navigator.onLine || !realtimeClient.getIsLeader()) {
+      return
+    }
+
+    this.flushing = true
+    try {
+      let entry = this.entries.find((e) => e.status === 'pending')
+      while (entry) {
+        const clientId = entry.client_id
+        this.sendingClientId = clientId
+        this.update(clientId, { status: 'sending' })
+
+        try {
+          let { media_url: mediaUrl, media_type: mediaType } = entry
+          if (entry.file) {
+            const uploadResult = await chatService.uploadFile(entry.file)
+            mediaUrl = uploadResult.url
+            mediaType = uploadResult.content_type
+            // Don't upload the same file twice if sending fails afterwards
+            this.update(clientId, { file: undefined, media_url: mediaUrl, media_type: mediaType })
+          }
+
+          const message = mediaUrl
+            ? await chatService.sendMessageWithMedia(
+                entry.content,
+                mediaUrl,
+                mediaType!,
+                entry.receiver_id,
+                undefined,
+                clientId,
+                entry.reply_to?.id,
+                entry.link_preview_disabled,
+                entry.forwarded_from?.message_id,
+                entry.mentions
+              )
+            : await chatService.sendMessage(
+                entry.content,
+                entry.receiver_id,
+                undefined,
+                clientId,
+                entry.reply_to?.id,
+                entry.link_preview_disabled,
+                entry.forwarded_from?.message_id,
+                entry.mentions
+              )
+          this.acknowledge(clientId, message)
+        } catch (error) {
+          if (isNetworkError(error)) {
+            // Keep it queued and stop; we'll resume when connectivity returns
+            this.update(clientId, { status: 'pending' })
+            this.scheduleRetry()
+            break
+          }
+          log.error('Failed to send message', error)
+          this.update(clientId, { status: 'failed', attempts: entry.attempts + 1 })
+        }
+
+        entry = this.entries.find((e) => e.status === 'pending')
+      }
+    } finally {
+      this.flushing = false
+      this.sendingClientId = null
+    }
+  }
+
+  private acknowledge(clientId: string, message: Message) {
+    if (!this.entries.some((entry) => entry.client_id === clientId)) return
+
+    this.remove(clientId)
+    this.ackListeners.forEach((listener) => listener(message))
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimeout !== undefined) return
+    this.retryTimeout = window.setTimeout(() => {
+      this.retryTimeout = undefined
+      void this.flush()
+    }, RETRY_DELAY)
+  }
+
+  private update(clientId: string, changes: Partial<OutboxEntry>) {
+    let updated: OutboxEntry | undefined
+    this.setEntries(
+      this.entries.map((entry) => {
+        if (entry.client_id !== clientId) return entry
+        updated = { ...entry, ...changes }
+        return updated
+      })
+    )
+    if (updated) {
+      this.persist(updated)
+    }
+  }
+
+  private remove(clientId: string) {
+    this.setEntries(this.entries.filter((entry) => entry.client_id !== clientId))
+    this.unpersisted.delete(clientId)
+    this.removed.add(clientId)
+    idb
+      .delete(IDB_STORES.OUTBOX, clientId)
+      .then(() => realtimeClient.publishTabEvent({ type: 'outbox_changed' }))
+      .catch((error) => {
+        log.error('Failed to remove outbox entry', error)
+      })
+  }
+
+  private persist(entry: OutboxEntry) {
+    this.unpersisted.add(entry.client_id)
+    idb
+      .put(IDB_STORES.OUTBOX, entry)
+      .then(() => {
+        this.unpersisted.delete(entry.client_id)
+        realtimeClient.publishTabEvent({ type: 'outbox_changed' })
+      })
+      .catch((error) => {
+        log.error('Failed to persist outbox entry', error)
+      })
+  }
+
+  private setEntries(entries: OutboxEntry[]) {
+    this.entries = entries
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const outbox = new Outbox()
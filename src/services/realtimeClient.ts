@@ -0,0 +1,594 @@
+import axios from 'axios'
+import { authService } from './authService'
+import { chatService } from './chatService'
+import { inboundEventSchema } from './realtimeEvents'
+import { TabChannel } from './tabChannel'
+import { createLogger } from '@/lib/logger'
+import type {
+  ConnectionState,
+  Message,
+  RealtimeError,
+  TabEvent,
+  WsInboundEvent,
+  WsInboundEventOf,
+  WsInboundEventType,
+  WsOutboundEvent,
+  WsOutboundEventType,
+  WsOutboundPayload,
+} from '@/types'
+
+const log = createLogger('realtime')
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://127.0.0.1:8000'
+
+const HEARTBEAT_INTERVAL = 30000 // Send ping every 30 seconds
+const RECONNECT_BASE_DELAY = 1000
+const RECONNECT_MAX_DELAY = 30000
+// Close codes the backend uses when it rejects the token
+const AUTH_CLOSE_CODES = [1008, 4001, 4003]
+const MISSED_MESSAGES_LIMIT = 200 // Above this, ask views to reload instead of replaying
+const SEEN_MESSAGE_IDS_LIMIT = 500
+
+export type RealtimeEventHandler<T extends WsInboundEventType> = (
+  event: WsInboundEventOf<T>
+) => void
+
+type AnyRealtimeEventHandler = (event: WsInboundEvent) => void
+
+// What the leader tab and follower tabs tell each other
+type TabMessage =
+  | { kind: 'event'; event: WsInboundEvent } // leader -> followers
+  | { kind: 'state'; state: ConnectionState } // leader -> followers
+  | { kind: 'resync' } // leader -> followers
+  | { kind: 'reconnected' } // leader -> followers
+  | { kind: 'hello' } // follower -> leader, asks for the current state
+  | { kind: 'send'; event: WsOutboundEvent } // follower -> leader
+  | { kind: 'reconnect_now' } // follower -> leader
+  | { kind: 'tab_event'; event: TabEvent } // any tab -> other tabs
+
+// Exponential backoff with "equal jitter" so many clients don't reconnect in lockstep
+function getReconnectDelay(attempt: number) {
+  const cap = Math.min(RECONNECT_BASE_DELAY * 2 ** attempt, RECONNECT_MAX_DELAY)
+  return cap / 2 + Math.random() * (cap / 2)
+}
+
+function isAuthError(error: unknown) {
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined
+  return status === 401 || status === 403
+}
+
+// Owns the single app-wide WebSocket connection. Components never open sockets
+// themselves; they subscribe to event types and unsubscribe on unmount.
+// Across tabs only the leader holds the socket and relays events to the others.
+class RealtimeClient {
+  private ws: WebSocket | null = null
+  private userId: string | null = null
+  private tabChannel = new TabChannel<TabMessage>()
+  private isLeader = false
+  private state: ConnectionState = { status: 'idle' }
+  private heartbeatInterval: number | undefined = undefined
+  private reconnectTimeout: number | undefined = undefined
+  private reconnectAttempts = 0
+  // Only refresh the token once per failure streak
+  private hasRefreshedToken = false
+  private hasConnected = false
+  private lastMessageAt: string | null = null
+  private seenMessageIds = new Set<string>()
+  private handlers = new Map<WsInboundEventType, Set<AnyRealtimeEventHandler>>()
+  private errorHandlers = new Set<(error: RealtimeError) => void>()
+  private statusListeners = new Set<() => void>()
+  private resyncListeners = new Set<() => void>()
+  private reconnectedListeners = new Set<() => void>()
+  private tabEventHandlers = new Set<(event: TabEvent) => void>()
+
+  connect(userId: string) {
+    // Already connected (or following the leader) for this user
+    if (this.userId === userId) return
+
+    this.disconnect()
+    this.userId = userId
+    window.addEventListener('online', this.handleOnline)
+    window.addEventListener('offline', this.handleOffline)
+    document.addEventListener('visibilitychange', this.handleVisibilityChange)
+
+    this.setState({ status: 'connecting' })
+    this.tabChannel.start(`realtime-chat:${userId}`, {
+      onLeader: () => this.becomeLeader(),
+      onMessage: (message) => this.handleTabMessage(message),
+    })
+    // If another tab already leads, it answers with its connection state
+    this.tabChannel.post({ kind: 'hello' })
+  }
+
+  disconnect() {
+    window.removeEventListener('online', this.handleOnline)
+    window.removeEventListener('offline', this.handleOffline)
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange)
+
+    this.tabChannel.stop()
+    this.isLeader = false
+    this.userId = null
+    this.hasConnected = false
+    this.lastMessageAt = null
+    this.seenMessageIds.clear()
+    this.closeSocket()
+    this.reconnectAttempts = 0
+    this.hasRefreshedToken = false
+    this.setState({ status: 'idle' })
+  }
+
+  // Skip the backoff wait, e.g. from the "reconnect now" button
+  reconnectNow() {
+    if (!this.userId || this.state.status === 'online' || this.state.status === 'connecting') {
+      return
+    }
+    if (!this.isLeader) {
+      this.tabChannel.post({ kind: 'reconnect_now' })
+      return
+    }
+    if (this.state.status === 'auth_failed') {
+      // Give the token refresh another chance
+      this.hasRefreshedToken = false
+    }
+    this.closeSocket()
+    void this.open()
+  }
+
+  on<T extends WsInboundEventType>(type: T, handler: RealtimeEventHandler<T>) {
+    let handlers = this.handlers.get(type)
+    if (!handlers) {
+      handlers = new Set()
+      this.handlers.set(type, handlers)
+    }
+    const entry = handler as AnyRealtimeEventHandler
+    handlers.add(entry)
+
+    return () => {
+      handlers.delete(entry)
+      if (handlers.size === 0) {
+        this.handlers.delete(type)
+      }
+    }
+  }
+
+  // Single channel for malformed frames and failing handlers
+  onError(handler: (error: RealtimeError) => void) {
+    this.errorHandlers.add(handler)
+    return () => {
+      this.errorHandlers.delete(handler)
+    }
+  }
+
+  send<T extends WsOutboundEventType>(type: T, payload: WsOutboundPayload<T>) {
+    if (!this.isLeader) {
+      // The leader tab sends it over its socket
+      this.tabChannel.post({ kind: 'send', event: { ...payload, type } as WsOutboundEvent })
+      return this.getIsConnected()
+    }
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ ...payload, type }))
+      return true
+    }
+    log.warn('Socket is not connected, dropping outgoing event', { type })
+    return false
+  }
+
+  // Called when missed events couldn't be replayed and views should reload from scratch
+  onResync(listener: () => void) {
+    this.resyncListeners.add(listener)
+    return () => {
+      this.resyncListeners.delete(listener)
+    }
+  }
+
+  // Called after a reconnect once missed messages were replayed. Only new messages are
+  // replayed, so views refetch what they show to pick up edits, deletions, reactions,
+  // pins and read receipts from the gap.
+  onReconnected(listener: () => void) {
+    this.reconnectedListeners.add(listener)
+    return () => {
+      this.reconnectedListeners.delete(listener)
+    }
+  }
+
+  // Client-side events from other tabs (the publishing tab handles its own)
+  onTabEvent(handler: (event: TabEvent) => void) {
+    this.tabEventHandlers.add(handler)
+    return () => {
+      this.tabEventHandlers.delete(handler)
+    }
+  }
+
+  publishTabEvent(event: TabEvent) {
+    this.tabChannel.post({ kind: 'tab_event', event })
+  }
+
+  subscribeStatus = (listener: () => void) => {
+    this.statusListeners.add(listener)
+    return () => {
+      this.statusListeners.delete(listener)
+    }
+  }
+
+  getState = () => this.state
+
+  getIsConnected = () => this.state.status === 'online'
+
+  getIsLeader = () => this.isLeader
+
+  private becomeLeader() {
+    log.info('This tab now holds the realtime connection')
+    this.isLeader = true
+    void this.open()
+  }
+
+  private handleTabMessage(message: TabMessage) {
+    switch (message.kind) {
+      case 'event':
+        if (this.isLeader) return
+        if (message.event.type === 'message' && !this.trackMessage(message.event)) return
+        this.emit(message.event)
+        break
+      case 'state':
+        if (this.isLeader) return
+        if (message.state.status === 'online') {
+          // Lets this tab recover missed messages if it takes over later
+          this.hasConnected = true
+        }
+        this.setState(message.state)
+        break
+      case 'resync':
+        if (!this.isLeader) this.notifyResync()
+        break
+      case 'reconnected':
+        if (!this.isLeader) this.notifyReconnected()
+        break
+      case 'hello':
+        if (this.isLeader) this.tabChannel.post({ kind: 'state', state: this.state })
+        break
+      case 'send':
+        if (this.isLeader) {
+          const { type, ...payload } = message.event
+          this.send(type, payload)
+        }
+        break
+      case 'reconnect_now':
+        if (this.isLeader) this.reconnectNow()
+        break
+      case 'tab_event':
+        this.tabEventHandlers.forEach((handler) => handler(message.event))
+        break
+    }
+  }
+
+  private async open() {
+    const userId = this.userId
+    if (!userId || !this.isLeader) return
+
+    if (!navigator.onLine) {
+      this.setState({ status: 'offline' })
+      return
+    }
+    this.setState({ status: 'connecting' })
+
+    let accessToken = sessionStorage.getItem('access_token')
+    if (!accessToken) {
+      log.warn('No access token found, trying to refresh')
+      accessToken = await this.refreshToken()
+      if (!accessToken) return
+    }
+
+    // User logged out or switched while we were refreshing
+    if (this.userId !== userId) return
+
+    try {
+      const wsUrl = API_BASE_URL.replace('http://', 'ws://').replace('https://', 'wss://')
+      const ws = new WebSocket(
+        `${wsUrl}/api/v1/ws/${userId}?token=${encodeURIComponent(accessToken)}`
+      )
+      log.debug('Opening socket', { endpoint: `${wsUrl}/api/v1/ws/${userId}`, userId })
+      let didOpen = false
+
+      ws.onopen = () => {
+        log.info('Socket connected', { userId })
+        didOpen = true
+        const isReconnect = this.hasConnected
+        this.hasConnected = true
+        this.reconnectAttempts = 0
+        this.hasRefreshedToken = false
+        this.setState({ status: 'online' })
+        this.startHeartbeat(ws)
+
+        if (isReconnect) {
+          void this.recoverMissedMessages()
+        }
+      }
+
+      ws.onmessage = (event) => {
+        this.handleFrame(event.data)
+      }
+
+      ws.onerror = (error) => {
+        // onclose always follows and decides what to do next
+        log.warn('Socket error', error)
+      }
+
+      ws.onclose = (event) => {
+        // A newer socket has replaced this one
+        if (this.ws !== ws) return
+
+        log.info('Socket closed', {
+          code: event.code,
+          reason: event.reason,
+          wasClean: event.wasClean,
+        })
+        this.ws = null
+        this.clearTimers()
+
+        // Browsers hide handshake rejections, so a socket that never opened may mean an expired token
+        if (AUTH_CLOSE_CODES.includes(event.code) || !didOpen) {
+          void this.recoverFromRejectedHandshake(AUTH_CLOSE_CODES.includes(event.code))
+        } else {
+          this.scheduleReconnect()
+        }
+      }
+
+      this.ws = ws
+    } catch (error) {
+      log.error('Failed to open socket', error)
+      this.scheduleReconnect()
+    }
+  }
+
+  private async recoverFromRejectedHandshake(rejectedByServer: boolean) {
+    if (this.hasRefreshedToken) {
+      // A fresh token was rejected too; retrying won't help
+      if (rejectedByServer) {
+        this.setState({ status: 'auth_failed' })
+      } else {
+        this.scheduleReconnect()
+      }
+      return
+    }
+
+    this.hasRefreshedToken = true
+    const token = await this.refreshToken()
+    if (token) {
+      void this.open()
+    }
+  }
+
+  // Returns the new token, or null after moving to auth_failed/reconnecting
+  private async refreshToken() {
+    try {
+      const response = await authService.refreshToken()
+      sessionStorage.setItem('access_token', response.access_token)
+      log.info('Access token refreshed')
+      return response.access_token
+    } catch (error) {
+      log.error('Failed to refresh access token', error)
+      if (isAuthError(error)) {
+        this.setState({ status: 'auth_failed' })
+      } else {
+        this.scheduleReconnect()
+      }
+      return null
+    }
+  }
+
+  private scheduleReconnect() {
+    if (!this.userId) return
+    if (!navigator.onLine) {
+      this.setState({ status: 'offline' })
+      return
+    }
+
+    const attempt = this.reconnectAttempts++
+    const delay = getReconnectDelay(attempt)
+    log.info('Scheduling reconnect', { delay: Math.round(delay), attempt: attempt + 1 })
+
+    if (this.reconnectTimeout !== undefined) {
+      clearTimeout(this.reconnectTimeout)
+    }
+    this.reconnectTimeout = window.setTimeout(() => {
+      this.reconnectTimeout = undefined
+      void this.open()
+    }, delay)
+    this.setState({ status: 'reconnecting', attempt: attempt + 1, retryAt: Date.now() + delay })
+  }
+
+  private handleOnline = () => {
+    this.reconnectNow()
+  }
+
+  private handleOffline = () => {
+    // The socket may take a while to notice; stop waiting on backoff timers meanwhile
+    if (this.isLeader && this.state.status === 'reconnecting') {
+      this.closeSocket()
+      this.setState({ status: 'offline' })
+    }
+  }
+
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible' && this.state.status === 'reconnecting') {
+      this.reconnectNow()
+    }
+  }
+
+  private handleFrame(raw: unknown) {
+    let data: unknown
+    try {
+      data = JSON.parse(String(raw))
+    } catch (error) {
+      this.reportError({ kind: 'parse', message: 'Frame is not valid JSON', raw, cause: error })
+      return
+    }
+
+    const result = inboundEventSchema.safeParse(data)
+    if (!result.success) {
+      this.reportError({
+        kind: 'validation',
+        message: result.error.issues
+          .map((issue) => `${issue.path.join('.') || 'frame'}: ${issue.message}`)
+          .join('; '),
+        raw: data,
+        cause: result.error,
+      })
+      return
+    }
+
+    const event = result.data
+    log.debug('Received event', event.type, event)
+
+    if (event.type === 'error') {
+      log.error('Server reported an error', event.message)
+    }
+    if (event.type === 'message' && !this.trackMessage(event)) {
+      return
+    }
+    this.dispatch(event)
+  }
+
+  // Fetches messages that arrived while the socket was down and replays them
+  // through the regular 'message' handlers
+  private async recoverMissedMessages() {
+    const since = this.lastMessageAt
+    if (!since) {
+      this.notifyResync()
+      return
+    }
+
+    try {
+      const missed = await chatService.getMessagesSince(since, MISSED_MESSAGES_LIMIT)
+      if (missed.length >= MISSED_MESSAGES_LIMIT) {
+        this.notifyResync()
+        return
+      }
+
+      missed
+        .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+        .forEach((message) => {
+          if (this.trackMessage(message)) {
+            this.dispatch({ ...message, type: 'message' })
+          }
+        })
+      this.notifyReconnected()
+    } catch (error) {
+      log.error('Failed to recover missed messages', error)
+      this.notifyResync()
+    }
+  }
+
+  // Remembers the newest message seen; returns false for duplicates
+  private trackMessage(message: Message) {
+    if (this.seenMessageIds.has(message.id)) {
+      return false
+    }
+    this.seenMessageIds.add(message.id)
+    if (this.seenMessageIds.size > SEEN_MESSAGE_IDS_LIMIT) {
+      // Sets iterate in insertion order, so this drops the oldest id
+      const oldest = this.seenMessageIds.values().next().value
+      if (oldest !== undefined) {
+        this.seenMessageIds.delete(oldest)
+      }
+    }
+
+    if (
+      !this.lastMessageAt ||
+      new Date(message.created_at).getTime() > new Date(this.lastMessageAt).getTime()
+    ) {
+      this.lastMessageAt = message.created_at
+    }
+    return true
+  }
+
+  private notifyResync() {
+    if (this.isLeader) {
+      this.tabChannel.post({ kind: 'resync' })
+    }
+    this.resyncListeners.forEach((listener) => listener())
+  }
+
+  private notifyReconnected() {
+    if (this.isLeader) {
+      this.tabChannel.post({ kind: 'reconnected' })
+    }
+    this.reconnectedListeners.forEach((listener) => listener())
+  }
+
+  // Handles an event in this tab and relays it to follower tabs
+  private dispatch(event: WsInboundEvent) {
+    this.tabChannel.post({ kind: 'event', event })
+    this.emit(event)
+  }
+
+  private emit(event: WsInboundEvent) {
+    const handlers = this.handlers.get(event.type)
+    if (!handlers) return
+
+    // Copy so handlers can unsubscribe while we iterate
+    ;[...handlers].forEach((handler) => {
+      try {
+        handler(event)
+      } catch (error) {
+        this.reportError({
+          kind: 'handler',
+          message: `Handler for "${event.type}" threw`,
+          raw: event,
+          cause: error,
+        })
+      }
+    })
+  }
+
+  private reportError(error: RealtimeError) {
+    if (this.errorHandlers.size === 0) {
+      log.error('Unhandled realtime error', error.kind, error.message, error.raw)
+      return
+    }
+    this.errorHandlers.forEach((handler) => handler(error))
+  }
+
+  private startHeartbeat(ws: WebSocket) {
+    if (this.heartbeatInterval !== undefined) {
+      clearInterval(this.heartbeatInterval)
+    }
+    this.heartbeatInterval = window.setInterval(() => {
+      if (ws.readyState === WebSocket.OPEN) {
+        this.send('ping', {})
+      }
+    }, HEARTBEAT_INTERVAL)
+  }
+
+  private clearTimers() {
+    if (this.heartbeatInterval !== undefined) {
+      clearInterval(this.heartbeatInterval)
+      this.heartbeatInterval = undefined
+    }
+    if (this.reconnectTimeout !== undefined) {
+      clearTimeout(this.reconnectTimeout)
+      this.reconnectTimeout = undefined
+    }
+  }
+
+  private closeSocket() {
+    this.clearTimers()
+    if (this.ws) {
+      // Detach handlers so the closure doesn't schedule a reconnect
+      this.ws.onclose = null
+      this.ws.onerror = null
+      this.ws.close(1000)
+      this.ws = null
+    }
+  }
+
+  private setState(state: ConnectionState) {
+    this.state = state
+    if (this.isLeader) {
+      this.tabChannel.post({ kind: 'state', state })
+    }
+    this.statusListeners.forEach((listener) => listener())
+  }
+}
+
+export const realtimeClient = new RealtimeClient()
@@ -0,0 +1,124 @@
+import { z } from 'zod'
+import type { WsInboundEvent } from '@/types'
+
+// The backend serializes missing optional fields as null
+const optionalString = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? undefined)
+
+const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  username: z.string(),
+  first_name: optionalString,
+  last_name: optionalString,
+  avatar_url: optionalString,
+  is_active: z.boolean().default(true),
+  is_verified: z.boolean().default(false),
+  is_superuser: z.boolean().default(false),
+  is_online: z.boolean().nullish().transform((value) => value ?? undefined),
+  last_seen: optionalString,
+})
+
+const replyPreviewSchema = z.object({
+  id: z.string(),
+  sender_id: z.string(),
+  content: z.string().default(''),
+  media_type: optionalString,
+  deleted_at: optionalString,
+  sender: userSchema.nullish().transform((value) => value ?? undefined),
+})
+
+const forwardSourceSchema = z.object({
+  message_id: z.string(),
+  sender_id: z.string(),
+  sender: userSchema.nullish().transform((value) => value ?? undefined),
+})
+
+const mentionSchema = z.object({
+  user_id: z.string(),
+  offset: z.number().int().nonnegative(),
+  length: z.number().int().positive(),
+  user: userSchema.nullish().transform((value) => value ?? undefined),
+})
+
+const reactionSchema = z.object({
+  emoji: z.string(),
+  user_ids: z.array(z.string()).default([]),
+})
+
+const reactionEventFields = {
+  message_id: z.string(),
+  user_id: z.string(),
+  emoji: z.string(),
+}
+
+export const messageSchema = z.object({
+  id: z.string(),
+  content: z.string().default(''),
+  sender_id: z.string(),
+  receiver_id: optionalString,
+  group_id: optionalString,
+  media_url: optionalString,
+  media_type: optionalString,
+  is_read: z.boolean().nullish().transform((value) => value ?? false),
+  delivered_at: optionalString,
+  created_at: z.string(),
+  edited_at: optionalString,
+  deleted_at: optionalString,
+  reply_to: replyPreviewSchema.nullish().transform((value) => value ?? undefined),
+  reactions: z.array(reactionSchema).nullish().transform((value) => value ?? undefined),
+  link_preview_disabled: z.boolean().nullish().transform((value) => value ?? undefined),
+  forwarded_from: forwardSourceSchema.nullish().transform((value) => value ?? undefined),
+  pinned_at: optionalString,
+  mentions: z.array(mentionSchema).nullish().transform((value) => value ?? undefined),
+  sender: userSchema.nullish().transform((value) => value ?? undefined),
+  client_id: optionalString,
+})
+
+// Typed against WsInboundEvent so the schema and the types can't drift apart
+export const inboundEventSchema: z.ZodType<WsInboundEvent> = z.discriminatedUnion('type', [
+  messageSchema.extend({ type: z.literal('message') }),
+  z.object({
+    type: z.literal('online_status'),
+    user_id: z.string(),
+    is_online: z.boolean(),
+    last_seen: optionalString,
+  }),
+  z.object({
+    type: z.literal('typing'),
+    user_id: z.string(),
+    is_typing: z.boolean(),
+  }),
+  z.object({
+    type: z.literal('read_receipt'),
+    reader_id: z.string(),
+    message_id: z.string(),
+    read_at: z.string(),
+  }),
+  z.object({
+    type: z.literal('message_delivered'),
+    message_id: z.string(),
+    delivered_at: z.string(),
+  }),
+  messageSchema.extend({ type: z.literal('message_updated') }),
+  z.object({
+    type: z.literal('message_deleted'),
+    message_id: z.string(),
+    for_everyone: z.boolean().default(true),
+    deleted_at: z.string(),
+  }),
+  z.object({ type: z.literal('reaction_added'), ...reactionEventFields }),
+  z.object({ type: z.literal('reaction_removed'), ...reactionEventFields }),
+  messageSchema.extend({ type: z.literal('message_pinned') }),
+  z.object({
+    type: z.literal('message_unpinned'),
+    message_id: z.string(),
+  }),
+  z.object({ type: z.literal('pong') }),
+  z.object({
+    type: z.literal('error'),
+    message: z.string().default('Unknown error'),
+  }),
+])
@@ -0,0 +1,61 @@
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('tabs')
+
+interface TabChannelHandlers<T> {
+  onMessage: (message: T) => void
+  onLeader: () => void
+}
+
+// Messaging between open tabs of the app plus leader election. Leadership is a
+// Web Lock held for as long as the tab lives, so the browser hands it to the
+// next waiting tab when the leader closes.
+export class TabChannel<T> {
+  private channel: BroadcastChannel | null = null
+  private abortController: AbortController | null = null
+  private releaseLock: (() => void) | null = null
+
+  start(name: string, handlers: TabChannelHandlers<T>) {
+    this.stop()
+
+    if (typeof BroadcastChannel === 'undefined' || !navigator.locks) {
+      // No way to coordinate; every tab leads itself
+      handlers.onLeader()
+      return
+    }
+
+    const channel = new BroadcastChannel(name)
+    channel.onmessage = (event: MessageEvent<T>) => handlers.onMessage(event.data)
+    this.channel = channel
+
+    const abortController = new AbortController()
+    this.abortController = abortController
+    navigator.locks
+      .request(`${name}:leader`, { signal: abortController.signal }, () => {
+        if (this.channel !== channel) return
+        handlers.onLeader()
+        // Hold the lock until stop() or the tab goes away
+        return new Promise<void>((resolve) => {
+          this.releaseLock = resolve
+        })
+      })
+      .catch((error: unknown) => {
+        if (!(error instanceof DOMException && error.name === 'AbortError')) {
+          log.error('Failed to acquire tab leadership', error)
+        }
+      })
+  }
+
+  post(message: T) {
+    this.channel?.postMessage(message)
+  }
+
+  stop() {
+    this.abortController?.abort()
+    this.abortController = null
+    this.releaseLock?.()
+    this.releaseLock = null
+    this.channel?.close()
+    this.channel = null
+  }
+}
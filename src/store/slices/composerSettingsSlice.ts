@@ -0,0 +1,36 @@
+import { createSlice } from '@reduxjs/toolkit'
+import type { PayloadAction } from '@reduxjs/toolkit'
+import type { SendShortcut } from '@/types'
+
+export const SEND_SHORTCUT_STORAGE_KEY = 'send_shortcut'
+
+function readSendShortcut(): SendShortcut {
+  return localStorage.getItem(SEND_SHORTCUT_STORAGE_KEY) === 'ctrl_enter' ? 'ctrl_enter' : 'enter'
+}
+
+// Composer preferences of this browser, shared by its tabs through localStorage
+interface ComposerSettingsState {
+  sendShortcut: SendShortcut
+}
+
+const initialState: ComposerSettingsState = {
+  sendShortcut: readSendShortcut(),
+}
+
+const composerSettingsSlice = createSlice({
+  name: 'composerSettings',
+  initialState,
+  reducers: {
+    setSendShortcut: (state, action: PayloadAction<SendShortcut>) => {
+      state.sendShortcut = action.payload
+      localStorage.setItem(SEND_SHORTCUT_STORAGE_KEY, action.payload)
+    },
+    // Another tab changed it
+    syncSendShortcut: (state) => {
+      state.sendShortcut = readSendShortcut()
+    },
+  },
+})
+
+export const { setSendShortcut, syncSendShortcut } = composerSettingsSlice.actions
+export default composerSettingsSlice.reducer
@@ -0,0 +1,100 @@
+import { createSlice } from '@reduxjs/toolkit'
+import type { PayloadAction } from '@reduxjs/toolkit'
+import { createLogger } from '@/lib/logger'
+import type { MessageDraft } from '@/types'
+
+const log = createLogger('drafts')
+
+type DraftChanges = Partial<Pick<MessageDraft, 'text' | 'reply_to'>>
+
+// Unsent text and reply target per conversation, kept in localStorage so they
+// survive switching chats and reloads
+interface DraftsState {
+  userId: string | null
+  byPeer: Record<string, MessageDraft>
+}
+
+export const getDraftsStorageKey = (userId: string) => `drafts:${userId}`
+
+function readDrafts(userId: string): Record<string, MessageDraft> {
+  try {
+    const stored = localStorage.getItem(getDraftsStorageKey(userId))
+    return stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    log.warn('Failed to read drafts', error)
+    return {}
+  }
+}
+
+function persistDrafts(state: DraftsState) {
+  if (!state.userId) return
+  try {
+    const key = getDraftsStorageKey(state.userId)
+    if (Object.keys(state.byPeer).length > 0) {
+      localStorage.setItem(key, JSON.stringify(state.byPeer))
+    } else {
+      localStorage.removeItem(key)
+    }
+  } catch (error) {
+    log.warn('Failed to save drafts', error)
+  }
+}
+
+const initialState: DraftsState = {
+  userId: null,
+  byPeer: {},
+}
+
+const draftsSlice = createSlice({
+  name: 'drafts',
+  initialState,
+  reducers: {
+    // Also picks up drafts another tab has saved
+    loadDrafts: (state, action: PayloadAction<string>) => {
+      state.userId = action.payload
+      state.byPeer = readDrafts(action.payload)
+    },
+    // Merges the changes into the conversation's draft; a draft left without text
+    // or reply target is removed
+    updateDraft: {
+      reducer: (
+        state,
+        action: PayloadAction<{ peerId: string; changes: DraftChanges; updatedAt: string }>
+      ) => {
+        if (!state.userId) return
+
+        const { peerId, changes, updatedAt } = action.payload
+        const current = state.byPeer[peerId]
+        const next: MessageDraft = {
+          text: current?.text ?? '',
+          reply_to: current?.reply_to,
+          ...changes,
+          updated_at: updatedAt,
+        }
+        if (next.text.trim() || next.reply_to) {
+          state.byPeer[peerId] = next
+        } else {
+          delete state.byPeer[peerId]
+        }
+        persistDrafts(state)
+      },
+      prepare: (peerId: string, changes: DraftChanges) => ({
+        payload: { peerId, changes, updatedAt: new Date().toISOString() },
+      }),
+    },
+    clearDraft: (state, action: PayloadAction<string>) => {
+      if (!state.byPeer[action.payload]) return
+
+      delete state.byPeer[action.payload]
+      persistDrafts(state)
+    },
+    // Logging out keeps the saved drafts but forgets them in memory
+    unloadDrafts: (state) => {
+      state.userId = null
+      state.byPeer = {}
+    },
+  },
+})
+
+export const { loadDrafts, updateDraft, clearDraft, unloadDrafts } = draftsSlice.actions
+export default draftsSlice.reducer
@@ -0,0 +1,39 @@
+import { createSlice } from '@reduxjs/toolkit'
+import type { PayloadAction } from '@reduxjs/toolkit'
+import type { Presence } from '@/types'
+
+interface PresenceState {
+  users: Record<string, Omit<Presence, 'user_id'>>
+}
+
+const initialState: PresenceState = {
+  users: {},
+}
+
+const presenceSlice = createSlice({
+  name: 'presence',
+  initialState,
+  reducers: {
+    // Snapshot fetched when the socket (re)connects replaces what we knew
+    setPresenceSnapshot: (state, action: PayloadAction<Presence[]>) => {
+      state.users = {}
+      action.payload.forEach(({ user_id, ...presence }) => {
+        state.users[user_id] = presence
+      })
+    },
+    updatePresence: (state, action: PayloadAction<Presence>) => {
+      const { user_id, is_online, last_seen } = action.payload
+      state.users[user_id] = {
+        is_online,
+        // Going offline without a timestamp means "just now"
+        last_seen: last_seen ?? (is_online ? state.users[user_id]?.last_seen : new Date().toISOString()),
+      }
+    },
+    clearPresence: (state) => {
+      state.users = {}
+    },
+  },
+})
+
+export const { setPresenceSnapshot, updatePresence, clearPresence } = presenceSlice.actions
+export default presenceSlice.reducer
@@ -0,0 +1,31 @@
+import { createSlice } from '@reduxjs/toolkit'
+import type { PayloadAction } from '@reduxjs/toolkit'
+
+interface TypingState {
+  // Peers currently typing to us, keyed by user id
+  userIds: Record<string, true>
+}
+
+const initialState: TypingState = {
+  userIds: {},
+}
+
+const typingSlice = createSlice({
+  name: 'typing',
+  initialState,
+  reducers: {
+    setUserTyping: (state, action: PayloadAction<{ userId: string; isTyping: boolean }>) => {
+      if (action.payload.isTyping) {
+        state.userIds[action.payload.userId] = true
+      } else {
+        delete state.userIds[action.payload.userId]
+      }
+    },
+    clearTyping: (state) => {
+      state.userIds = {}
+    },
+  },
+})
+
+export const { setUserTyping, clearTyping } = typingSlice.actions
+export default typingSlice.reducer
@@ -1,10 +1,21 @@
 import { configureStore } from '@reduxjs/toolkit'
 import { setupListeners } from '@reduxjs/toolkit/query'
 import authReducer from './slices/authSlice'
+import typingReducer from './slices/typingSlice'
+import presenceReducer from './slices/presenceSlice'
+import draftsReducer, { getDraftsStorageKey, loadDrafts } from './slices/draftsSlice'
+import composerSettingsReducer, {
+  SEND_SHORTCUT_STORAGE_KEY,
+  syncSendShortcut,
+} from './slices/composerSettingsSlice'
 
 export const store = configureStore({
   reducer: {
     auth: authReducer,
+    typing: typingReducer,
+    presence: presenceReducer,
+    drafts: draftsReducer,
+    composerSettings: composerSettingsReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
@@ -16,5 +27,16 @@ export const store = configureStore({
 
 setupListeners(store.dispatch)
 
+// Drafts and composer settings saved by other tabs
+window.addEventListener('storage', (event) => {
+  const { userId } = store.getState().drafts
+  if (userId && event.key === getDraftsStorageKey(userId)) {
+    store.dispatch(loadDrafts(userId))
+  } else if (event.key === SEND_SHORTCUT_STORAGE_KEY) {
+    store.dispatch(syncSendShortcut())
+  }
+})
+
 export type RootState = ReturnType<typeof store.getState>
 export type AppDispatch = typeof store.dispatch
+export type AppStore = typeof store
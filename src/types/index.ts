@@ -28,8 +28,98 @@ export interface Message {
   media_url?: string
   media_type?: string
   is_read: boolean
+  delivered_at?: string
   created_at: string
+  edited_at?: string
+  // Set when the sender deleted it for everyone; content and media are cleared
+  deleted_at?: string
+  reply_to?: MessageReplyPreview
+  reactions?: MessageReaction[]
+  // The sender removed the link preview before sending
+  link_preview_disabled?: boolean
+  forwarded_from?: MessageForwardSource
+  // Pinned to the top of the conversation for both participants
+  pinned_at?: string
+  mentions?: MessageMention[]
   sender?: User
+  // Echoed back by the server for messages sent through the outbox
+  client_id?: string
+}
+
+// Everyone who reacted to a message with the same emoji
+export interface MessageReaction {
+  emoji: string
+  user_ids: string[]
+}
+
+// A person referenced as "@username" in the message text. Offset and length are in
+// UTF-16 code units, like JavaScript string indices, into `content`.
+export interface MessageMention {
+  user_id: string
+  offset: number
+  length: number
+  user?: User
+}
+
+// Where a forwarded message originally came from, for the "Forwarded from" header
+export interface MessageForwardSource {
+  message_id: string
+  sender_id: string
+  sender?: User
+}
+
+// Snapshot of the message being replied to, enough to render the quote
+export interface MessageReplyPreview {
+  id: string
+  sender_id: string
+  content: string
+  media_type?: string
+  deleted_at?: string
+  sender?: User
+}
+
+// Unsent composer state of one conversation
+export interface MessageDraft {
+  text: string
+  reply_to?: MessageReplyPreview
+  updated_at: string
+}
+
+// Key that sends from the composer; the other one inserts a new line
+export type SendShortcut = 'enter' | 'ctrl_enter'
+
+// Message waiting in the persistent outbox until the server acknowledges it
+export interface OutboxEntry {
+  client_id: string
+  sender_id: string
+  receiver_id: string
+  content: string
+  // Attachments are uploaded when the entry is sent, so they survive going offline
+  file?: File
+  media_url?: string
+  media_type?: string
+  reply_to?: MessageReplyPreview
+  link_preview_disabled?: boolean
+  forwarded_from?: MessageForwardSource
+  mentions?: MessageMention[]
+  created_at: string
+  status: 'pending' | 'sending' | 'failed'
+  attempts: number
+}
+
+// Page metadata for a URL, fetched by the backend's unfurl endpoint
+export interface LinkPreview {
+  url: string
+  title?: string
+  description?: string
+  site_name?: string
+  image_url?: string
+}
+
+export interface Presence {
+  user_id: string
+  is_online: boolean
+  last_seen?: string
 }
 
 export interface Contact {
@@ -39,3 +129,142 @@ export interface Contact {
   nickname?: string
   contact?: User
 }
+
+// WebSocket protocol: events pushed by the server
+export interface WsMessageEvent extends Message {
+  type: 'message'
+}
+
+export interface WsOnlineStatusEvent {
+  type: 'online_status'
+  user_id: string
+  is_online: boolean
+  last_seen?: string
+}
+
+export interface WsTypingEvent {
+  type: 'typing'
+  user_id: string
+  is_typing: boolean
+}
+
+// The reader has read every message we sent them up to and including message_id
+export interface WsReadReceiptEvent {
+  type: 'read_receipt'
+  reader_id: string
+  message_id: string
+  read_at: string
+}
+
+export interface WsMessageDeliveredEvent {
+  type: 'message_delivered'
+  message_id: string
+  delivered_at: string
+}
+
+// An edited message; carries the full updated message
+export interface WsMessageUpdatedEvent extends Message {
+  type: 'message_updated'
+}
+
+// for_everyone is false when we deleted it only for ourselves on another device
+export interface WsMessageDeletedEvent {
+  type: 'message_deleted'
+  message_id: string
+  for_everyone: boolean
+  deleted_at: string
+}
+
+export interface WsReactionAddedEvent {
+  type: 'reaction_added'
+  message_id: string
+  user_id: string
+  emoji: string
+}
+
+export interface WsReactionRemovedEvent {
+  type: 'reaction_removed'
+  message_id: string
+  user_id: string
+  emoji: string
+}
+
+// Carries the full message so the pinned bar can show it even if it isn't loaded
+export interface WsMessagePinnedEvent extends Message {
+  type: 'message_pinned'
+}
+
+export interface WsMessageUnpinnedEvent {
+  type: 'message_unpinned'
+  message_id: string
+}
+
+export interface WsPongEvent {
+  type: 'pong'
+}
+
+export interface WsErrorEvent {
+  type: 'error'
+  message: string
+}
+
+export type WsInboundEvent =
+  | WsMessageEvent
+  | WsOnlineStatusEvent
+  | WsTypingEvent
+  | WsReadReceiptEvent
+  | WsMessageDeliveredEvent
+  | WsMessageUpdatedEvent
+  | WsMessageDeletedEvent
+  | WsReactionAddedEvent
+  | WsReactionRemovedEvent
+  | WsMessagePinnedEvent
+  | WsMessageUnpinnedEvent
+  | WsPongEvent
+  | WsErrorEvent
+
+export type WsInboundEventType = WsInboundEvent['type']
+
+export type WsInboundEventOf<T extends WsInboundEventType> = Extract<WsInboundEvent, { type: T }>
+
+// WebSocket protocol: events sent by the client
+export interface WsPingEvent {
+  type: 'ping'
+}
+
+export interface WsSendTypingEvent {
+  type: 'typing'
+  receiver_id: string
+  is_typing: boolean
+}
+
+export type WsOutboundEvent = WsPingEvent | WsSendTypingEvent
+
+export type WsOutboundEventType = WsOutboundEvent['type']
+
+export type WsOutboundPayload<T extends WsOutboundEventType> = Omit<
+  Extract<WsOutboundEvent, { type: T }>,
+  'type'
+>
+
+// Client-side events shared between open tabs of the app
+export type TabEvent =
+  | { type: 'conversation_read'; peer_id: string; read_up_to: string }
+  | { type: 'outbox_changed' }
+
+// Lifecycle of the shared realtime connection
+export type ConnectionState =
+  | { status: 'idle' } // No user, nothing to connect
+  | { status: 'connecting' }
+  | { status: 'online' }
+  | { status: 'reconnecting'; attempt: number; retryAt: number }
+  | { status: 'offline' } // Browser reports no network; waiting for the online event
+  | { status: 'auth_failed' } // Token refresh failed; retrying won't help until re-login
+
+// Problems with the realtime connection that aren't tied to a specific event
+export interface RealtimeError {
+  kind: 'parse' | 'validation' | 'handler'
+  message: string
+  raw?: unknown
+  cause?: unknown
+}